@@ -1,6 +1,14 @@
 import { Request, Response } from 'express';
-import User from '../models/UserSchema';
-import { AuthUtils } from '../utils/auth';
+import { SessionClient } from '../models/Session';
+import User, { IUser } from '../models/UserSchema';
+import { MailService } from '../services/mailService';
+import { SessionService } from '../services/sessionService';
+import {
+  EMAIL_VERIFICATION_EXPIRES_IN_HOURS,
+  PASSWORD_RESET_EXPIRES_IN_MINUTES,
+  UserService,
+} from '../services/userService';
+import { TimezoneUtils } from '../utils/timezone';
 
 class AppError extends Error {
   public statusCode: number;
@@ -16,10 +24,42 @@ class AppError extends Error {
 }
 
 export class AuthController {
+  private sessionService: SessionService;
+  private userService: UserService;
+  private mailService: MailService;
+
+  constructor() {
+    this.sessionService = new SessionService();
+    this.userService = new UserService();
+    this.mailService = new MailService();
+  }
+
+  // Helper method to email a new verification link to a user
+  private async sendVerificationEmail(user: IUser): Promise<void> {
+    const token = await this.userService.createEmailVerificationToken(user);
+    await this.mailService.sendVerificationEmail(
+      user,
+      token,
+      EMAIL_VERIFICATION_EXPIRES_IN_HOURS
+    );
+  }
+
+  // Helper method to describe the device a session is started or used from
+  private getSessionClient(req: Request): SessionClient {
+    return {
+      deviceLabel:
+        typeof req.body?.deviceLabel === 'string'
+          ? req.body.deviceLabel
+          : undefined,
+      userAgent: req.get('user-agent'),
+      ip: req.ip,
+    };
+  }
+
   // POST /api/v1/auth/register
   public register = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { name, email, password } = req.body;
+      const { name, email, password, timezone } = req.body;
 
       // Validation
       if (!name || !email || !password) {
@@ -38,6 +78,15 @@ export class AuthController {
         return;
       }
 
+      if (timezone !== undefined && !TimezoneUtils.isValidTimezone(timezone)) {
+        res.status(400).json({
+          success: false,
+          message:
+            'Timezone must be a valid IANA timezone (e.g. Europe/London)',
+        });
+        return;
+      }
+
       // Check if user already exists
       const existingUser = await User.findOne({ email: email.toLowerCase() });
       if (existingUser) {
@@ -48,18 +97,23 @@ export class AuthController {
         return;
       }
 
-      // Create new user
+      // Create new user, who has to verify their email before logging in
       const user = new User({
         name: name.trim(),
         email: email.toLowerCase().trim(),
         password,
+        emailVerified: false,
+        ...(timezone && { timezone }),
       });
 
       await user.save();
 
-      // Generate tokens
-      const token = AuthUtils.generateToken(user);
-      const refreshToken = AuthUtils.generateRefreshToken(user);
+      // The account exists either way, a lost email can be sent again
+      try {
+        await this.sendVerificationEmail(user);
+      } catch (error) {
+        console.error('❌ Error sending verification email:', error);
+      }
 
       // Remove password from response
       const userResponse = user.toObject();
@@ -67,11 +121,10 @@ export class AuthController {
 
       res.status(201).json({
         success: true,
-        message: 'User registered successfully',
+        message:
+          'User registered successfully. Check your email to verify your address',
         data: {
           user: userResponse,
-          token,
-          refreshToken,
         },
       });
     } catch (error) {
@@ -120,9 +173,19 @@ export class AuthController {
         return;
       }
 
-      // Generate tokens
-      const token = AuthUtils.generateToken(user);
-      const refreshToken = AuthUtils.generateRefreshToken(user);
+      if (!user.emailVerified) {
+        res.status(403).json({
+          success: false,
+          message: 'Please verify your email address before logging in',
+        });
+        return;
+      }
+
+      // Start a session and issue its tokens
+      const { token, refreshToken } = await this.sessionService.createSession(
+        user,
+        this.getSessionClient(req)
+      );
 
       // Remove password from response
       const userResponse = user.toObject();
@@ -145,46 +208,125 @@ export class AuthController {
     }
   };
 
-  // POST /api/v1/auth/refresh
-  public refreshToken = async (req: Request, res: Response): Promise<void> => {
+  // POST /api/v1/auth/verify-email
+  public verifyEmail = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { refreshToken } = req.body;
+      const { token } = req.body;
 
-      if (!refreshToken) {
+      if (!token) {
         res.status(400).json({
           success: false,
-          message: 'Refresh token is required',
+          message: 'Token is required',
         });
         return;
       }
 
-      // Verify refresh token
-      const decoded = AuthUtils.verifyRefreshToken(refreshToken);
-
-      // Get user
-      const user = await User.findById(decoded.userId);
+      const user = await this.userService.verifyEmail(token);
 
       if (!user) {
-        res.status(401).json({
+        res.status(400).json({
           success: false,
-          message: 'User not found',
+          message: 'Invalid or expired verification token',
         });
         return;
       }
 
-      // Generate new tokens
-      const newToken = AuthUtils.generateToken(user);
-      const newRefreshToken = AuthUtils.generateRefreshToken(user);
+      // Verifying logs the user in, as login was refused until now
+      const tokens = await this.sessionService.createSession(
+        user,
+        this.getSessionClient(req)
+      );
 
       res.status(200).json({
         success: true,
-        message: 'Token refreshed successfully',
+        message: 'Email verified successfully',
         data: {
-          token: newToken,
-          refreshToken: newRefreshToken,
+          user,
+          ...tokens,
         },
       });
-    } catch (_) {
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(`Email verification failed: ${error.message}`);
+      }
+      throw new AppError('Email verification failed');
+    }
+  };
+
+  // POST /api/v1/auth/resend-verification
+  public resendVerification = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        res.status(400).json({
+          success: false,
+          message: 'Email is required',
+        });
+        return;
+      }
+
+      const user = await User.findOne({ email: email.toLowerCase() });
+
+      // Don't reveal if user exists or is verified
+      if (user && !user.emailVerified) {
+        await this.sendVerificationEmail(user);
+      }
+
+      res.status(200).json({
+        success: true,
+        message:
+          'If an unverified account with that email exists, a verification link has been sent',
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(
+          `Failed to resend verification email: ${error.message}`
+        );
+      }
+      throw new AppError('Failed to resend verification email');
+    }
+  };
+
+  // POST /api/v1/auth/refresh
+  public refreshToken = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken) {
+        res.status(400).json({
+          success: false,
+          message: 'Refresh token is required',
+        });
+        return;
+      }
+
+      // Rotate the refresh token, revoking the session if it was reused
+      const tokens = await this.sessionService.refreshSession(
+        refreshToken,
+        this.getSessionClient(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Token refreshed successfully',
+        data: tokens,
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message === 'Refresh token reuse detected'
+      ) {
+        res.status(401).json({
+          success: false,
+          message:
+            'Refresh token was already used. The session has been revoked, please log in again',
+        });
+        return;
+      }
       res.status(401).json({
         success: false,
         message: 'Invalid refresh token',
@@ -194,12 +336,140 @@ export class AuthController {
 
   // POST /api/v1/auth/logout
   public logout = async (req: Request, res: Response): Promise<void> => {
-    // In a real app, you might want to blacklist the token
-    // For now, we'll just return success
-    res.status(200).json({
-      success: true,
-      message: 'Logout successful',
-    });
+    try {
+      const { refreshToken } = req.body;
+
+      if (refreshToken) {
+        await this.sessionService.revokeSessionByRefreshToken(
+          refreshToken,
+          'logout'
+        );
+      } else if (req.user && req.sessionId) {
+        await this.sessionService.revokeSession(
+          req.sessionId,
+          'logout',
+          req.user._id.toString()
+        );
+      } else {
+        res.status(400).json({
+          success: false,
+          message: 'Refresh token or access token is required',
+        });
+        return;
+      }
+
+      // Logging out an unknown or already revoked session still succeeds
+      res.status(200).json({
+        success: true,
+        message: 'Logout successful',
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(`Logout failed: ${error.message}`);
+      }
+      throw new AppError('Logout failed');
+    }
+  };
+
+  // POST /api/v1/auth/logout-all
+  public logoutAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          message: 'Not authenticated',
+        });
+        return;
+      }
+
+      const revoked = await this.sessionService.revokeAllSessions(
+        user._id.toString(),
+        'logout-all'
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Logged out of all sessions',
+        data: { revoked },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(`Logout failed: ${error.message}`);
+      }
+      throw new AppError('Logout failed');
+    }
+  };
+
+  // GET /api/v1/auth/sessions
+  public getSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          message: 'Not authenticated',
+        });
+        return;
+      }
+
+      const sessions = await this.sessionService.getActiveSessions(
+        user._id.toString(),
+        req.sessionId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: sessions,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(error.message);
+      }
+      throw new AppError('Failed to fetch sessions');
+    }
+  };
+
+  // DELETE /api/v1/auth/sessions/:id
+  public revokeSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = req.user;
+
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          message: 'Not authenticated',
+        });
+        return;
+      }
+
+      // Sessions of other users are reported as missing
+      const revoked = await this.sessionService.revokeSession(
+        req.params.id,
+        'revoked',
+        user._id.toString()
+      );
+
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          message: 'Session not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked successfully',
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new AppError(`Failed to revoke session: ${error.message}`);
+      }
+      throw new AppError('Failed to revoke session');
+    }
   };
 
   // GET /api/v1/auth/me
@@ -253,17 +523,18 @@ export class AuthController {
         return;
       }
 
-      // Generate password reset token
-      const resetToken = AuthUtils.generatePasswordResetToken(user);
+      // Email the password reset token
+      const resetToken = await this.userService.createPasswordResetToken(user);
+      await this.mailService.sendPasswordResetEmail(
+        user,
+        resetToken,
+        PASSWORD_RESET_EXPIRES_IN_MINUTES
+      );
 
-      // In a real app, you would send this token via email
-      // For now, we'll just return it (remove this in production!)
       res.status(200).json({
         success: true,
-        message: 'Password reset token generated',
-        data: {
-          resetToken, // Remove this in production!
-        },
+        message:
+          'If an account with that email exists, a password reset link has been sent',
       });
     } catch (_) {
       throw new AppError('Failed to process password reset request');
@@ -291,11 +562,8 @@ export class AuthController {
         return;
       }
 
-      // Verify reset token
-      const decoded = AuthUtils.verifyPasswordResetToken(token);
-
-      // Get user
-      const user = await User.findById(decoded.userId);
+      // Consume the reset token and set the new password
+      const user = await this.userService.resetPassword(token, password);
 
       if (!user) {
         res.status(400).json({
@@ -305,18 +573,20 @@ export class AuthController {
         return;
       }
 
-      // Update password (will be hashed by pre-save middleware)
-      user.password = password;
-      await user.save();
+      // Whoever had access to the account before has to log in again
+      await this.sessionService.revokeAllSessions(
+        (user._id as any).toString(),
+        'password-reset'
+      );
 
       res.status(200).json({
         success: true,
-        message: 'Password reset successfully',
+        message: 'Password reset successfully. Please log in again',
       });
     } catch (_) {
-      res.status(400).json({
+      res.status(500).json({
         success: false,
-        message: 'Invalid or expired token',
+        message: 'Password reset failed',
       });
     }
   };
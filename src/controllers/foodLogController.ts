@@ -1,10 +1,22 @@
 import { Request, Response } from 'express';
 import {
   CreateBulkFoodLogRequest,
+  CopyFoodLogsRequest,
   CreateFoodLogRequest,
+  FoodLogExportFormat,
+  FoodLogExportRow,
+  NutritionGranularity,
   UpdateFoodLogRequest,
 } from '../models/FoodLog';
+import {
+  FOOD_LOG_IMPORT_DATE_FORMATS,
+  FOOD_LOG_IMPORT_PRESETS,
+  ImportFoodLogsRequest,
+} from '../models/FoodLogImport';
+import { FoodLogImportService } from '../services/foodLogImportService';
 import { FoodLogService } from '../services/foodLogService';
+import { CsvUtils } from '../utils/csv';
+import { OwnershipUtils } from '../utils/ownership';
 
 class AppError extends Error {
   public statusCode: number;
@@ -19,28 +31,124 @@ class AppError extends Error {
   }
 }
 
+const GRANULARITIES: NutritionGranularity[] = ['day', 'week', 'month'];
+
+const EXPORT_FORMATS: FoodLogExportFormat[] = ['csv', 'json'];
+
+// Columns of a CSV export, in order
+const EXPORT_COLUMNS: (keyof FoodLogExportRow)[] = [
+  'date',
+  'mealType',
+  'meal',
+  'servings',
+  'amount',
+  'unit',
+  'calories',
+  'protein',
+  'fat',
+  'carbs',
+  'notes',
+  'logDate',
+  'loggedAt',
+  'id',
+];
+
 export class FoodLogController {
   private foodLogService: FoodLogService;
+  private foodLogImportService: FoodLogImportService;
 
   constructor() {
     this.foodLogService = new FoodLogService();
+    this.foodLogImportService = new FoodLogImportService();
+  }
+
+  // Parse the granularity query param, returning null when it is invalid
+  private parseGranularity(
+    req: Request,
+    defaultGranularity: NutritionGranularity
+  ): NutritionGranularity | null {
+    const granularity = req.query.granularity as string | undefined;
+    if (granularity === undefined) {
+      return defaultGranularity;
+    }
+    return GRANULARITIES.includes(granularity as NutritionGranularity)
+      ? (granularity as NutritionGranularity)
+      : null;
+  }
+
+  // Validate servings or an amount + quantity unit, returning an error
+  // message or null
+  private validateQuantity(
+    data: { servings?: number; amount?: number; quantityUnit?: string },
+    required: boolean
+  ): string | null {
+    if (data.amount !== undefined) {
+      if (!data.quantityUnit) {
+        return 'Quantity unit is required when logging by amount';
+      }
+      if (
+        typeof data.amount !== 'number' ||
+        data.amount <= 0 ||
+        data.amount > 100000
+      ) {
+        return 'Amount must be greater than 0 and cannot exceed 100000';
+      }
+      return null;
+    }
+
+    if (data.quantityUnit) {
+      return 'Amount is required when a quantity unit is given';
+    }
+
+    if (data.servings === undefined) {
+      return required
+        ? 'Servings or amount with quantity unit are required'
+        : null;
+    }
+
+    if (
+      typeof data.servings !== 'number' ||
+      data.servings < 0.1 ||
+      data.servings > 100
+    ) {
+      return 'Servings must be between 0.1 and 100';
+    }
+
+    return null;
+  }
+
+  // Map amount conversion errors to a response, returning true if handled
+  private handleQuantityError(error: Error, res: Response): boolean {
+    if (error.message.includes('Quantity unit not found')) {
+      res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+      return true;
+    }
+    if (error.message.includes('Cannot convert')) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return true;
+    }
+    return false;
   }
 
   // POST /api/v1/food-logs
   public createFoodLog = async (req: Request, res: Response): Promise<void> => {
     try {
-      const foodLogData: CreateFoodLogRequest = req.body;
+      const foodLogData: CreateFoodLogRequest = {
+        ...req.body,
+        user: OwnershipUtils.resolveOwner(req),
+      };
 
       // Basic validation
-      if (
-        !foodLogData.user ||
-        !foodLogData.meal ||
-        !foodLogData.mealType ||
-        foodLogData.servings === undefined
-      ) {
+      if (!foodLogData.meal || !foodLogData.mealType) {
         res.status(400).json({
           success: false,
-          message: 'User, meal, meal type, and servings are required',
+          message: 'Meal and meal type are required',
         });
         return;
       }
@@ -55,11 +163,12 @@ export class FoodLogController {
         return;
       }
 
-      // Validate servings
-      if (foodLogData.servings <= 0 || foodLogData.servings > 100) {
+      // Validate servings, or the amount it is derived from
+      const quantityError = this.validateQuantity(foodLogData, true);
+      if (quantityError) {
         res.status(400).json({
           success: false,
-          message: 'Servings must be between 0.1 and 100',
+          message: quantityError,
         });
         return;
       }
@@ -89,6 +198,16 @@ export class FoodLogController {
           });
           return;
         }
+        if (this.handleQuantityError(error, res)) {
+          return;
+        }
+        if (error.message.includes('Meal not found')) {
+          res.status(404).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
       }
       throw new AppError('Failed to create food log');
     }
@@ -100,13 +219,16 @@ export class FoodLogController {
     res: Response
   ): Promise<void> => {
     try {
-      const bulkLogData: CreateBulkFoodLogRequest = req.body;
+      const bulkLogData: CreateBulkFoodLogRequest = {
+        ...req.body,
+        user: OwnershipUtils.resolveOwner(req),
+      };
 
       // Basic validation
-      if (!bulkLogData.user || !bulkLogData.mealType || !bulkLogData.items) {
+      if (!bulkLogData.mealType || !bulkLogData.items) {
         res.status(400).json({
           success: false,
-          message: 'User, meal type, and items are required',
+          message: 'Meal type and items are required',
         });
         return;
       }
@@ -142,18 +264,19 @@ export class FoodLogController {
       for (let i = 0; i < bulkLogData.items.length; i++) {
         const item = bulkLogData.items[i];
 
-        if (!item.meal || item.servings === undefined) {
+        if (!item.meal) {
           res.status(400).json({
             success: false,
-            message: `Item ${i + 1}: meal and servings are required`,
+            message: `Item ${i + 1}: meal is required`,
           });
           return;
         }
 
-        if (item.servings <= 0 || item.servings > 100) {
+        const quantityError = this.validateQuantity(item, true);
+        if (quantityError) {
           res.status(400).json({
             success: false,
-            message: `Item ${i + 1}: servings must be between 0.1 and 100`,
+            message: `Item ${i + 1}: ${quantityError}`,
           });
           return;
         }
@@ -188,6 +311,16 @@ export class FoodLogController {
           });
           return;
         }
+        if (this.handleQuantityError(error, res)) {
+          return;
+        }
+        if (error.message.includes('Meal not found')) {
+          res.status(404).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
         res.status(500).json({
           success: false,
           message: error.message,
@@ -198,6 +331,215 @@ export class FoodLogController {
     }
   };
 
+  // POST /api/v1/food-logs/copy
+  public copyFoodLogs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const copyData: CopyFoodLogsRequest = {
+        ...req.body,
+        user: OwnershipUtils.resolveOwner(req),
+      };
+
+      // Basic validation
+      if (copyData.sourceDate === undefined || !copyData.targetDates) {
+        res.status(400).json({
+          success: false,
+          message: 'Source date and target dates are required',
+        });
+        return;
+      }
+
+      if (
+        !Array.isArray(copyData.targetDates) ||
+        copyData.targetDates.length === 0 ||
+        copyData.targetDates.length > 31
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Target dates must be an array of 1 to 31 dates',
+        });
+        return;
+      }
+
+      const dates = [copyData.sourceDate, ...copyData.targetDates];
+      if (dates.some(date => typeof date !== 'number' || date < 0)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid date format. Expected epoch timestamps.',
+        });
+        return;
+      }
+
+      const validMealTypes = ['breakfast', 'lunch', 'dinner', 'snack'];
+      if (copyData.mealType && !validMealTypes.includes(copyData.mealType)) {
+        res.status(400).json({
+          success: false,
+          message: 'Meal type must be one of: breakfast, lunch, dinner, snack',
+        });
+        return;
+      }
+
+      const result = await this.foodLogService.copyFoodLogs(copyData);
+
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('validation failed')) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('Cannot log more than')) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (this.handleQuantityError(error, res)) {
+          return;
+        }
+        if (
+          error.message.includes('No food logs found') ||
+          error.message.includes('Meal not found')
+        ) {
+          res.status(404).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+      }
+      throw new AppError('Failed to copy food logs');
+    }
+  };
+
+  // POST /api/v1/food-logs/import
+  public importFoodLogs = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const importData: ImportFoodLogsRequest = {
+        ...req.body,
+        user: OwnershipUtils.resolveOwner(req),
+        dryRun: req.body.dryRun === true || req.query.dryRun === 'true',
+      };
+
+      if (typeof importData.csv !== 'string' || !importData.csv.trim()) {
+        res.status(400).json({
+          success: false,
+          message: 'CSV content is required',
+        });
+        return;
+      }
+
+      const presets = Object.keys(FOOD_LOG_IMPORT_PRESETS);
+      if (importData.preset && !presets.includes(importData.preset)) {
+        res.status(400).json({
+          success: false,
+          message: `Preset must be one of: ${presets.join(', ')}`,
+        });
+        return;
+      }
+
+      if (
+        importData.columns !== undefined &&
+        (typeof importData.columns !== 'object' ||
+          importData.columns === null ||
+          Object.values(importData.columns).some(
+            column => typeof column !== 'string'
+          ))
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Columns must map fields to CSV header names',
+        });
+        return;
+      }
+
+      if (
+        importData.dateFormat &&
+        !FOOD_LOG_IMPORT_DATE_FORMATS.includes(importData.dateFormat)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: `Date format must be one of: ${FOOD_LOG_IMPORT_DATE_FORMATS.join(', ')}`,
+        });
+        return;
+      }
+
+      if (
+        importData.nutritionBasis &&
+        !['total', 'serving'].includes(importData.nutritionBasis)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Nutrition basis must be one of: total, serving',
+        });
+        return;
+      }
+
+      const validMealTypes = ['breakfast', 'lunch', 'dinner', 'snack'];
+      if (
+        importData.mealType &&
+        !validMealTypes.includes(importData.mealType)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Meal type must be one of: breakfast, lunch, dinner, snack',
+        });
+        return;
+      }
+
+      const result = await this.foodLogImportService.importFoodLogs(importData);
+
+      if (!result.dryRun && result.logsCreated + result.logsUpdated === 0) {
+        res.status(400).json({
+          success: false,
+          data: result,
+          message: 'No rows were imported',
+        });
+        return;
+      }
+
+      res.status(result.dryRun ? 200 : 201).json({
+        success: true,
+        data: result,
+        message: result.dryRun
+          ? 'Import checked, nothing was saved'
+          : `Imported ${result.validRows} of ${result.totalRows} rows`,
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message.includes('Invalid CSV') ||
+          error.message.includes('Missing column') ||
+          error.message.includes('No rows to import') ||
+          error.message.includes('Cannot import more than'))
+      ) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+      throw new AppError('Failed to import food logs');
+    }
+  };
+
+  // GET /api/v1/food-logs/import/presets
+  public getImportPresets = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    res.status(200).json({
+      success: true,
+      data: FOOD_LOG_IMPORT_PRESETS,
+    });
+  };
+
   // GET /api/v1/food-logs/:id
   public getFoodLogById = async (
     req: Request,
@@ -205,7 +547,10 @@ export class FoodLogController {
   ): Promise<void> => {
     try {
       const { id } = req.params;
-      const foodLog = await this.foodLogService.getFoodLogById(id);
+      const foodLog = await this.foodLogService.getFoodLogById(
+        id,
+        OwnershipUtils.getOwnerScope(req)
+      );
 
       if (!foodLog) {
         res.status(404).json({
@@ -243,15 +588,14 @@ export class FoodLogController {
         }
       }
 
-      // Validate servings if provided
-      if (updateData.servings !== undefined) {
-        if (updateData.servings <= 0 || updateData.servings > 100) {
-          res.status(400).json({
-            success: false,
-            message: 'Servings must be between 0.1 and 100',
-          });
-          return;
-        }
+      // Validate servings or amount if provided
+      const quantityError = this.validateQuantity(updateData, false);
+      if (quantityError) {
+        res.status(400).json({
+          success: false,
+          message: quantityError,
+        });
+        return;
       }
 
       // Validate notes length if provided
@@ -265,7 +609,8 @@ export class FoodLogController {
 
       const updatedFoodLog = await this.foodLogService.updateFoodLog(
         id,
-        updateData
+        updateData,
+        OwnershipUtils.getOwnerScope(req)
       );
 
       if (!updatedFoodLog) {
@@ -283,13 +628,26 @@ export class FoodLogController {
       });
     } catch (error) {
       if (error instanceof Error) {
-        if (error.message.includes('validation failed')) {
+        if (
+          error.message.includes('validation failed') ||
+          error.message.includes('Invalid update field')
+        ) {
           res.status(400).json({
             success: false,
             message: error.message,
           });
           return;
         }
+        if (this.handleQuantityError(error, res)) {
+          return;
+        }
+        if (error.message.includes('Meal not found')) {
+          res.status(404).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
       }
       throw new AppError('Failed to update food log');
     }
@@ -299,7 +657,10 @@ export class FoodLogController {
   public deleteFoodLog = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const deleted = await this.foodLogService.deleteFoodLog(id);
+      const deleted = await this.foodLogService.deleteFoodLog(
+        id,
+        OwnershipUtils.getOwnerScope(req)
+      );
 
       if (!deleted) {
         res.status(404).json({
@@ -311,13 +672,111 @@ export class FoodLogController {
 
       res.status(200).json({
         success: true,
-        message: 'Food log deleted successfully',
+        message: 'Food log moved to trash',
       });
     } catch (_) {
       throw new AppError('Failed to delete food log');
     }
   };
 
+  // POST /api/v1/food-logs/:id/restore
+  public restoreFoodLog = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const foodLog = await this.foodLogService.restoreFoodLog(
+        id,
+        OwnershipUtils.getOwnerScope(req)
+      );
+
+      if (!foodLog) {
+        res.status(404).json({
+          success: false,
+          message: 'Deleted food log not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: foodLog,
+        message: 'Food log restored successfully',
+      });
+    } catch (_) {
+      throw new AppError('Failed to restore food log');
+    }
+  };
+
+  // GET /api/v1/food-logs/trash/:userId
+  public getDeletedFoodLogs = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const result = await this.foodLogService.getDeletedFoodLogs(
+        userId,
+        page,
+        limit
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        pagination: {
+          page: result.page,
+          pages: result.pages,
+          total: result.total,
+          limit,
+        },
+      });
+    } catch (_) {
+      throw new AppError('Failed to fetch deleted food logs');
+    }
+  };
+
+  // POST /api/v1/food-logs/:id/resync
+  public resyncFoodLogNutrition = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const foodLog = await this.foodLogService.resyncFoodLogNutrition(
+        id,
+        OwnershipUtils.getOwnerScope(req)
+      );
+
+      if (!foodLog) {
+        res.status(404).json({
+          success: false,
+          message: 'Food log not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: foodLog,
+        message: 'Food log nutrition resynced from current meal',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Meal not found')) {
+        res.status(404).json({
+          success: false,
+          message: 'Meal not found',
+        });
+        return;
+      }
+      throw new AppError('Failed to resync food log nutrition');
+    }
+  };
+
   // GET /api/v1/food-logs/user/:userId
   public getFoodLogsByUser = async (
     req: Request,
@@ -402,8 +861,9 @@ export class FoodLogController {
     try {
       const { userId, mealType, startDate, endDate, page, limit } = req.query;
 
+      // Non-admins can only search their own logs
       const searchParams = {
-        userId: userId as string,
+        userId: OwnershipUtils.getOwnerScope(req) || (userId as string),
         mealType: mealType as
           | 'breakfast'
           | 'lunch'
@@ -454,7 +914,8 @@ export class FoodLogController {
 
       const summary = await this.foodLogService.getDailyNutritionSummary(
         userId,
-        targetDate
+        targetDate,
+        req.query.timezone as string | undefined
       );
 
       res.status(200).json({
@@ -474,6 +935,7 @@ export class FoodLogController {
     try {
       const { userId } = req.params;
       const { startDate, endDate } = req.query;
+      const granularity = this.parseGranularity(req, 'day');
 
       if (!startDate || !endDate) {
         res.status(400).json({
@@ -502,10 +964,20 @@ export class FoodLogController {
         return;
       }
 
+      if (!granularity) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid granularity. Must be one of: day, week, month',
+        });
+        return;
+      }
+
       const summaries = await this.foodLogService.getNutritionSummaryRange(
         userId,
         start,
-        end
+        end,
+        req.query.timezone as string | undefined,
+        granularity
       );
 
       res.status(200).json({
@@ -582,6 +1054,135 @@ export class FoodLogController {
     }
   };
 
+  // Write a chunk to the response, waiting for the client to catch up when
+  // its buffer is full. Resolves to false once the client has gone away.
+  private async writeChunk(res: Response, chunk: string): Promise<boolean> {
+    if (res.destroyed) {
+      return false;
+    }
+    if (res.write(chunk)) {
+      return true;
+    }
+    return new Promise(resolve => {
+      const done = (drained: boolean) => {
+        res.off('drain', onDrain);
+        res.off('close', onClose);
+        res.off('error', onClose);
+        resolve(drained);
+      };
+      const onDrain = () => done(true);
+      const onClose = () => done(false);
+      res.once('drain', onDrain);
+      res.once('close', onClose);
+      res.once('error', onClose);
+    });
+  }
+
+  // GET /api/v1/food-logs/export/:userId
+  public exportFoodLogs = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    const { userId } = req.params;
+    const format = (req.query.format as string | undefined) || 'csv';
+    const startDate = req.query.startDate
+      ? parseInt(req.query.startDate as string)
+      : undefined;
+    const endDate = req.query.endDate
+      ? parseInt(req.query.endDate as string)
+      : undefined;
+
+    if (!EXPORT_FORMATS.includes(format as FoodLogExportFormat)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid format. Must be one of: csv, json',
+      });
+      return;
+    }
+
+    if (
+      (startDate !== undefined && (isNaN(startDate) || startDate < 0)) ||
+      (endDate !== undefined && (isNaN(endDate) || endDate < 0))
+    ) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid date format. Expected epoch timestamps.',
+      });
+      return;
+    }
+
+    if (startDate && endDate && startDate > endDate) {
+      res.status(400).json({
+        success: false,
+        message: 'Start date must be before end date',
+      });
+      return;
+    }
+
+    const rows = this.foodLogService.exportFoodLogs(userId, {
+      startDate,
+      endDate,
+      timezone: req.query.timezone as string | undefined,
+    });
+
+    res.setHeader(
+      'Content-Type',
+      format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json'
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="food-logs-${userId}.${format}"`
+    );
+
+    const header =
+      format === 'csv' ? CsvUtils.formatRow(EXPORT_COLUMNS) : '{"data":[';
+    const footer = format === 'csv' ? '' : ']}';
+    let count = 0;
+
+    try {
+      for await (const row of rows) {
+        // The header goes out with the first row, so an error before any
+        // log is read can still be answered with a JSON error
+        const prefix = count === 0 ? header : format === 'json' ? ',' : '';
+        const chunk =
+          format === 'csv'
+            ? CsvUtils.formatRow(
+                EXPORT_COLUMNS.map(column =>
+                  CsvUtils.neutralizeFormula(row[column])
+                )
+              )
+            : JSON.stringify(row);
+        // Stop reading logs once the client has gone away; leaving the loop
+        // closes the cursor
+        if (!(await this.writeChunk(res, prefix + chunk))) {
+          return;
+        }
+        count++;
+      }
+
+      if (count === 0) {
+        res.write(header);
+      }
+      res.end(footer);
+    } catch (error) {
+      // Once rows were sent the status can no longer change, so cut the
+      // response short to show the client the export is incomplete
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      if (error instanceof Error && error.message === 'Invalid user ID') {
+        res.removeHeader('Content-Disposition');
+        res.status(400).json({
+          success: false,
+          message: 'Invalid user ID',
+        });
+        return;
+      }
+      throw new AppError('Failed to export food logs');
+    }
+  };
+
   // GET /api/v1/food-logs/stats/:userId
   public getFoodLogStats = async (
     req: Request,
@@ -589,7 +1190,42 @@ export class FoodLogController {
   ): Promise<void> => {
     try {
       const { userId } = req.params;
-      const stats = await this.foodLogService.getFoodLogStats(userId);
+      const startDate = req.query.startDate
+        ? parseInt(req.query.startDate as string)
+        : undefined;
+      const endDate = req.query.endDate
+        ? parseInt(req.query.endDate as string)
+        : undefined;
+      const topMeals = Math.min(
+        parseInt(req.query.topMeals as string) || 5,
+        50
+      );
+
+      if (
+        (req.query.startDate && (isNaN(startDate!) || startDate! < 0)) ||
+        (req.query.endDate && (isNaN(endDate!) || endDate! < 0))
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid date format. Expected epoch timestamps.',
+        });
+        return;
+      }
+
+      if (startDate && endDate && startDate > endDate) {
+        res.status(400).json({
+          success: false,
+          message: 'Start date must be before end date',
+        });
+        return;
+      }
+
+      const stats = await this.foodLogService.getFoodLogStats(userId, {
+        startDate,
+        endDate,
+        topMeals,
+        timezone: req.query.timezone as string | undefined,
+      });
 
       res.status(200).json({
         success: true,
@@ -600,6 +1236,73 @@ export class FoodLogController {
     }
   };
 
+  // GET /api/v1/food-logs/streaks/:userId
+  public getLoggingStreaks = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const weeks = parseInt(req.query.weeks as string) || 12;
+      const minCalories = req.query.minCalories
+        ? parseFloat(req.query.minCalories as string)
+        : undefined;
+      const requireMealTypes = req.query.requireMealTypes
+        ? (req.query.requireMealTypes as string)
+            .split(',')
+            .map(mealType => mealType.trim())
+        : undefined;
+
+      const validMealTypes = ['breakfast', 'lunch', 'dinner', 'snack'];
+      if (
+        requireMealTypes &&
+        !requireMealTypes.every(mealType => validMealTypes.includes(mealType))
+      ) {
+        res.status(400).json({
+          success: false,
+          message:
+            'Invalid meal type. Must be one of: breakfast, lunch, dinner, snack',
+        });
+        return;
+      }
+
+      if (
+        minCalories !== undefined &&
+        (isNaN(minCalories) || minCalories < 0)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Minimum calories must be a non-negative number',
+        });
+        return;
+      }
+
+      if (weeks < 1 || weeks > 52) {
+        res.status(400).json({
+          success: false,
+          message: 'Weeks must be between 1 and 52',
+        });
+        return;
+      }
+
+      const streaks = await this.foodLogService.getLoggingStreaks(userId, {
+        requireMealTypes: requireMealTypes as
+          | ('breakfast' | 'lunch' | 'dinner' | 'snack')[]
+          | undefined,
+        minCalories,
+        weeks,
+        timezone: req.query.timezone as string | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: streaks,
+      });
+    } catch (_) {
+      throw new AppError('Failed to fetch logging streaks');
+    }
+  };
+
   // GET /api/v1/food-logs/weekly-trend/:userId
   public getWeeklyNutritionTrend = async (
     req: Request,
@@ -608,10 +1311,21 @@ export class FoodLogController {
     try {
       const { userId } = req.params;
       const weeks = parseInt(req.query.weeks as string) || 4;
+      const granularity = this.parseGranularity(req, 'week');
+
+      if (!granularity) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid granularity. Must be one of: day, week, month',
+        });
+        return;
+      }
 
       const trend = await this.foodLogService.getWeeklyNutritionTrend(
         userId,
-        weeks
+        weeks,
+        req.query.timezone as string | undefined,
+        granularity
       );
 
       res.status(200).json({
@@ -631,10 +1345,21 @@ export class FoodLogController {
     try {
       const { userId } = req.params;
       const months = parseInt(req.query.months as string) || 6;
+      const granularity = this.parseGranularity(req, 'month');
+
+      if (!granularity) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid granularity. Must be one of: day, week, month',
+        });
+        return;
+      }
 
       const trend = await this.foodLogService.getMonthlyNutritionTrend(
         userId,
-        months
+        months,
+        req.query.timezone as string | undefined,
+        granularity
       );
 
       res.status(200).json({
@@ -1,6 +1,23 @@
 import { Request, Response } from 'express';
+import { MealImportService } from '../services/mealImportService';
 import { MealService } from '../services/mealService';
-import { CreateMealRequest, UpdateMealRequest } from '../models/Meal';
+import {
+  CreateMealRequest,
+  MealSearchParams,
+  MealViewer,
+  MealVisibility,
+  UpdateMealRequest,
+} from '../models/Meal';
+import { DELETE_STRATEGIES } from '../models/Deletion';
+import { MEAL_IMPORT_FORMATS } from '../models/MealImport';
+import { isAdmin } from '../middleware/auth';
+import { DeletionUtils } from '../utils/deletion';
+import {
+  MICRONUTRIENTS,
+  MICRONUTRIENT_KEYS,
+  Micronutrients,
+  NutrientUtils,
+} from '../utils/nutrients';
 
 class AppError extends Error {
   public statusCode: number;
@@ -15,11 +32,122 @@ class AppError extends Error {
   }
 }
 
+const VISIBILITIES: MealVisibility[] = ['global', 'own', 'all'];
+
 export class MealController {
   private mealService: MealService;
+  private mealImportService: MealImportService;
 
   constructor() {
     this.mealService = new MealService();
+    this.mealImportService = new MealImportService();
+  }
+
+  // Describe the caller for visibility and ownership checks
+  private getViewer(req: Request): MealViewer {
+    return {
+      userId: req.user?._id.toString(),
+      isAdmin: isAdmin(req.user),
+    };
+  }
+
+  // Resolve the owner of a new meal. Admins create global meals unless they
+  // set a user, everyone else always creates meals of their own.
+  private resolveMealOwner(req: Request): string | undefined {
+    if (isAdmin(req.user)) {
+      return req.body.user || undefined;
+    }
+    return req.user._id.toString();
+  }
+
+  // Parse the visibility query parameter, sending a 400 and returning null
+  // if it is invalid
+  private parseVisibility(req: Request, res: Response): MealVisibility | null {
+    const visibility = (req.query.visibility as string) || 'all';
+    if (!VISIBILITIES.includes(visibility as MealVisibility)) {
+      res.status(400).json({
+        success: false,
+        message: `Visibility must be one of: ${VISIBILITIES.join(', ')}`,
+      });
+      return null;
+    }
+    return visibility as MealVisibility;
+  }
+
+  // Validate optional micronutrients, returning an error message or null
+  private validateMicronutrients(data: Micronutrients): string | null {
+    const invalid = MICRONUTRIENT_KEYS.find(
+      key =>
+        data[key] !== undefined &&
+        (typeof data[key] !== 'number' || (data[key] as number) < 0)
+    );
+    return invalid
+      ? `${MICRONUTRIENTS[invalid].label} must be a non-negative number`
+      : null;
+  }
+
+  // Validate recipe ingredients and yield, returning an error message or null
+  private validateRecipe(
+    data: CreateMealRequest | UpdateMealRequest,
+    requireAll: boolean
+  ): string | null {
+    if (requireAll && (!data.ingredients || data.yield === undefined)) {
+      return 'Recipes require ingredients and a yield';
+    }
+
+    if (data.ingredients !== undefined) {
+      if (
+        !Array.isArray(data.ingredients) ||
+        data.ingredients.length === 0 ||
+        data.ingredients.length > 50
+      ) {
+        return 'Ingredients must be an array of 1 to 50 items';
+      }
+
+      for (let i = 0; i < data.ingredients.length; i++) {
+        const ingredient = data.ingredients[i];
+        const hasAmount =
+          ingredient.amount !== undefined && !!ingredient.quantityUnit;
+        if (
+          !ingredient.meal ||
+          !(hasAmount ? ingredient.amount! > 0 : ingredient.servings > 0)
+        ) {
+          return `Ingredient ${i + 1}: meal and servings (or amount with quantity unit) greater than 0 are required`;
+        }
+      }
+    }
+
+    if (data.yield !== undefined && !(data.yield > 0)) {
+      return 'Recipe yield must be greater than 0';
+    }
+
+    return null;
+  }
+
+  // Map recipe errors from the service to a response, returning true if handled
+  private handleRecipeError(error: Error, res: Response): boolean {
+    if (
+      error.message.includes('Meal not found') ||
+      error.message.includes('Quantity unit not found')
+    ) {
+      res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+      return true;
+    }
+    if (
+      error.message.includes('recipe') ||
+      error.message.includes('Recipe yield') ||
+      error.message.includes('Cannot convert')
+    ) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return true;
+    }
+    return false;
   }
 
   // GET /api/v1/meals
@@ -27,8 +155,17 @@ export class MealController {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
+      const visibility = this.parseVisibility(req, res);
+      if (!visibility) {
+        return;
+      }
 
-      const result = await this.mealService.getAllMeals(page, limit);
+      const result = await this.mealService.getAllMeals(
+        page,
+        limit,
+        this.getViewer(req),
+        visibility
+      );
 
       res.status(200).json({
         success: true,
@@ -49,7 +186,7 @@ export class MealController {
   public getMealById = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const meal = await this.mealService.getMealById(id);
+      const meal = await this.mealService.getMealById(id, this.getViewer(req));
 
       if (!meal) {
         res.status(404).json({
@@ -71,15 +208,43 @@ export class MealController {
   // POST /api/v1/meals
   public createMeal = async (req: Request, res: Response): Promise<void> => {
     try {
-      const mealData: CreateMealRequest = req.body;
+      const mealData: CreateMealRequest = {
+        ...req.body,
+        user: this.resolveMealOwner(req),
+      };
+
+      // Recipes get their nutrition from the ingredients
+      if (mealData.isRecipe) {
+        if (
+          !mealData.name ||
+          mealData.quantity === undefined ||
+          !mealData.quantityUnit
+        ) {
+          res.status(400).json({
+            success: false,
+            message: 'Name, quantity, and quantity unit are required',
+          });
+          return;
+        }
+
+        const recipeError = this.validateRecipe(mealData, true);
+        if (recipeError) {
+          res.status(400).json({
+            success: false,
+            message: recipeError,
+          });
+          return;
+        }
+      }
 
       // Basic validation
       if (
-        !mealData.name ||
-        mealData.protein === undefined ||
-        mealData.calories === undefined ||
-        mealData.quantity === undefined ||
-        !mealData.quantityUnit
+        !mealData.isRecipe &&
+        (!mealData.name ||
+          mealData.protein === undefined ||
+          mealData.calories === undefined ||
+          mealData.quantity === undefined ||
+          !mealData.quantityUnit)
       ) {
         res.status(400).json({
           success: false,
@@ -91,8 +256,8 @@ export class MealController {
 
       // Validate numeric values
       if (
-        mealData.protein < 0 ||
-        mealData.calories < 0 ||
+        (!mealData.isRecipe &&
+          (mealData.protein < 0 || mealData.calories < 0)) ||
         mealData.quantity <= 0
       ) {
         res.status(400).json({
@@ -120,6 +285,23 @@ export class MealController {
         return;
       }
 
+      if (mealData.density !== undefined && !(mealData.density > 0)) {
+        res.status(400).json({
+          success: false,
+          message: 'Density must be greater than 0',
+        });
+        return;
+      }
+
+      const micronutrientError = this.validateMicronutrients(mealData);
+      if (micronutrientError) {
+        res.status(400).json({
+          success: false,
+          message: micronutrientError,
+        });
+        return;
+      }
+
       // Validate emoji if provided
       if (mealData.emoji) {
         const emojiRegex =
@@ -135,7 +317,10 @@ export class MealController {
 
       // Tags are validated by the schema (must be valid ObjectIds)
 
-      const newMeal = await this.mealService.createMeal(mealData);
+      const newMeal = await this.mealService.createMeal(
+        mealData,
+        this.getViewer(req)
+      );
 
       res.status(201).json({
         success: true,
@@ -151,11 +336,78 @@ export class MealController {
           });
           return;
         }
+        if (this.handleRecipeError(error, res)) {
+          return;
+        }
       }
       throw new AppError('Failed to create meal');
     }
   };
 
+  // POST /api/v1/meals/import
+  public importMeals = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { content, format, source } = req.body;
+      const dryRun = req.body.dryRun === true || req.query.dryRun === 'true';
+
+      if (typeof content !== 'string' || !content.trim()) {
+        res.status(400).json({
+          success: false,
+          message: 'File content is required',
+        });
+        return;
+      }
+
+      if (format !== undefined && !MEAL_IMPORT_FORMATS.includes(format)) {
+        res.status(400).json({
+          success: false,
+          message: `Format must be one of: ${MEAL_IMPORT_FORMATS.join(', ')}`,
+        });
+        return;
+      }
+
+      if (
+        source !== undefined &&
+        (typeof source !== 'string' || !source.trim() || source.length > 50)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Source must be a name of at most 50 characters',
+        });
+        return;
+      }
+
+      const result = await this.mealImportService.importMeals(content, {
+        format,
+        source,
+        dryRun,
+        changedBy: req.user._id.toString(),
+      });
+
+      res.status(dryRun ? 200 : 201).json({
+        success: true,
+        data: result,
+        message: dryRun
+          ? 'Import checked, nothing was saved'
+          : `Inserted ${result.inserted}, updated ${result.updated} and skipped ${result.skipped} meals`,
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message.includes('Invalid CSV') ||
+          error.message.includes('Invalid JSON') ||
+          error.message.includes('must be an array'))
+      ) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+      throw new AppError('Failed to import meals');
+    }
+  };
+
   // PUT /api/v1/meals/:id
   public updateMeal = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -191,6 +443,21 @@ export class MealController {
         });
         return;
       }
+      if (updateData.density !== undefined && !(updateData.density > 0)) {
+        res.status(400).json({
+          success: false,
+          message: 'Density must be greater than 0',
+        });
+        return;
+      }
+      const micronutrientError = this.validateMicronutrients(updateData);
+      if (micronutrientError) {
+        res.status(400).json({
+          success: false,
+          message: micronutrientError,
+        });
+        return;
+      }
 
       // Validate emoji if provided
       if (updateData.emoji) {
@@ -205,9 +472,25 @@ export class MealController {
         }
       }
 
+      const recipeError = this.validateRecipe(
+        updateData,
+        updateData.isRecipe === true
+      );
+      if (recipeError) {
+        res.status(400).json({
+          success: false,
+          message: recipeError,
+        });
+        return;
+      }
+
       // Tags are validated by the schema (must be valid ObjectIds)
 
-      const updatedMeal = await this.mealService.updateMeal(id, updateData);
+      const updatedMeal = await this.mealService.updateMeal(
+        id,
+        updateData,
+        this.getViewer(req)
+      );
 
       if (!updatedMeal) {
         res.status(404).json({
@@ -231,6 +514,23 @@ export class MealController {
           });
           return;
         }
+        if (error.message.includes('Invalid update field')) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('Only admins')) {
+          res.status(403).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (this.handleRecipeError(error, res)) {
+          return;
+        }
       }
       throw new AppError('Failed to update meal');
     }
@@ -240,9 +540,23 @@ export class MealController {
   public deleteMeal = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const deleted = await this.mealService.deleteMeal(id);
+      const strategy = (req.query.strategy as string) || 'block';
+
+      if (!DeletionUtils.isValidStrategy(strategy)) {
+        res.status(400).json({
+          success: false,
+          message: `Strategy must be one of: ${DELETE_STRATEGIES.join(', ')}`,
+        });
+        return;
+      }
+
+      const result = await this.mealService.deleteMeal(
+        id,
+        this.getViewer(req),
+        strategy
+      );
 
-      if (!deleted) {
+      if (!result) {
         res.status(404).json({
           success: false,
           message: 'Meal not found',
@@ -250,15 +564,54 @@ export class MealController {
         return;
       }
 
+      if (result.outcome === 'blocked') {
+        res.status(409).json({
+          success: false,
+          message: 'Meal is still in use',
+          dependents: result.dependents,
+        });
+        return;
+      }
+
       res.status(200).json({
         success: true,
-        message: 'Meal deleted successfully',
+        data: result,
+        message:
+          result.outcome === 'archived'
+            ? 'Meal archived successfully'
+            : 'Meal deleted successfully',
       });
-    } catch (_) {
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Only admins')) {
+        res.status(403).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
       throw new AppError('Failed to delete meal');
     }
   };
 
+  // Parse minFiber/maxFiber style query parameters for each micronutrient
+  private parseMicronutrientRanges(
+    req: Request
+  ): MealSearchParams['micronutrientRanges'] {
+    const ranges: MealSearchParams['micronutrientRanges'] = {};
+    MICRONUTRIENT_KEYS.forEach(key => {
+      const names = NutrientUtils.rangeParamNames(key);
+      const min = parseFloat(req.query[names.min] as string);
+      const max = parseFloat(req.query[names.max] as string);
+      if (!isNaN(min) || !isNaN(max)) {
+        ranges[key] = {
+          min: isNaN(min) ? undefined : min,
+          max: isNaN(max) ? undefined : max,
+        };
+      }
+    });
+    return ranges;
+  }
+
   // GET /api/v1/meals/search
   public searchMeals = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -276,25 +629,38 @@ export class MealController {
         page,
         limit,
       } = req.query;
+      const visibility = this.parseVisibility(req, res);
+      if (!visibility) {
+        return;
+      }
 
-      const result = await this.mealService.searchMeals({
-        query: query as string,
-        minCalories: minCalories ? parseInt(minCalories as string) : undefined,
-        maxCalories: maxCalories ? parseInt(maxCalories as string) : undefined,
-        minProtein: minProtein ? parseInt(minProtein as string) : undefined,
-        maxProtein: maxProtein ? parseInt(maxProtein as string) : undefined,
-        minFat: minFat ? parseInt(minFat as string) : undefined,
-        maxFat: maxFat ? parseInt(maxFat as string) : undefined,
-        minCarbs: minCarbs ? parseInt(minCarbs as string) : undefined,
-        maxCarbs: maxCarbs ? parseInt(maxCarbs as string) : undefined,
-        tags: tags
-          ? Array.isArray(tags)
-            ? tags.map(t => String(t))
-            : [String(tags)]
-          : undefined,
-        page: parseInt(page as string) || 1,
-        limit: parseInt(limit as string) || 10,
-      });
+      const result = await this.mealService.searchMeals(
+        {
+          query: query as string,
+          minCalories: minCalories
+            ? parseInt(minCalories as string)
+            : undefined,
+          maxCalories: maxCalories
+            ? parseInt(maxCalories as string)
+            : undefined,
+          minProtein: minProtein ? parseInt(minProtein as string) : undefined,
+          maxProtein: maxProtein ? parseInt(maxProtein as string) : undefined,
+          minFat: minFat ? parseInt(minFat as string) : undefined,
+          maxFat: maxFat ? parseInt(maxFat as string) : undefined,
+          minCarbs: minCarbs ? parseInt(minCarbs as string) : undefined,
+          maxCarbs: maxCarbs ? parseInt(maxCarbs as string) : undefined,
+          micronutrientRanges: this.parseMicronutrientRanges(req),
+          tags: tags
+            ? Array.isArray(tags)
+              ? tags.map(t => String(t))
+              : [String(tags)]
+            : undefined,
+          visibility,
+          page: parseInt(page as string) || 1,
+          limit: parseInt(limit as string) || 10,
+        },
+        this.getViewer(req)
+      );
 
       res.status(200).json({
         success: true,
@@ -314,7 +680,15 @@ export class MealController {
   // GET /api/v1/meals/stats
   public getMealStats = async (req: Request, res: Response): Promise<void> => {
     try {
-      const stats = await this.mealService.getMealStats();
+      const visibility = this.parseVisibility(req, res);
+      if (!visibility) {
+        return;
+      }
+
+      const stats = await this.mealService.getMealStats(
+        this.getViewer(req),
+        visibility
+      );
 
       res.status(200).json({
         success: true,
@@ -346,11 +720,18 @@ export class MealController {
         return;
       }
 
+      const visibility = this.parseVisibility(req, res);
+      if (!visibility) {
+        return;
+      }
+
       const result = await this.mealService.getMealsByCalorieRange(
         minCalories,
         maxCalories,
         page,
-        limit
+        limit,
+        this.getViewer(req),
+        visibility
       );
 
       res.status(200).json({
@@ -389,11 +770,18 @@ export class MealController {
         return;
       }
 
+      const visibility = this.parseVisibility(req, res);
+      if (!visibility) {
+        return;
+      }
+
       const result = await this.mealService.getMealsByProteinRange(
         minProtein,
         maxProtein,
         page,
-        limit
+        limit,
+        this.getViewer(req),
+        visibility
       );
 
       res.status(200).json({
@@ -432,11 +820,18 @@ export class MealController {
         return;
       }
 
+      const visibility = this.parseVisibility(req, res);
+      if (!visibility) {
+        return;
+      }
+
       const result = await this.mealService.getMealsByFatRange(
         minFat,
         maxFat,
         page,
-        limit
+        limit,
+        this.getViewer(req),
+        visibility
       );
 
       res.status(200).json({
@@ -475,11 +870,18 @@ export class MealController {
         return;
       }
 
+      const visibility = this.parseVisibility(req, res);
+      if (!visibility) {
+        return;
+      }
+
       const result = await this.mealService.getMealsByCarbsRange(
         minCarbs,
         maxCarbs,
         page,
-        limit
+        limit,
+        this.getViewer(req),
+        visibility
       );
 
       res.status(200).json({
@@ -501,7 +903,7 @@ export class MealController {
   public getMealInfo = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const info = await this.mealService.getMealInfo(id);
+      const info = await this.mealService.getMealInfo(id, this.getViewer(req));
 
       res.status(200).json({
         success: true,
@@ -519,6 +921,113 @@ export class MealController {
     }
   };
 
+  // GET /api/v1/meals/:id/versions
+  public getMealVersions = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const result = await this.mealService.getMealVersions(
+        id,
+        page,
+        limit,
+        this.getViewer(req)
+      );
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          message: 'Meal not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        pagination: {
+          page: result.page,
+          pages: result.pages,
+          total: result.total,
+          limit,
+        },
+      });
+    } catch (_) {
+      throw new AppError('Failed to fetch meal versions');
+    }
+  };
+
+  // POST /api/v1/meals/:id/versions/:version/revert
+  public revertMeal = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const version = parseInt(req.params.version);
+
+      if (isNaN(version) || version < 1) {
+        res.status(400).json({
+          success: false,
+          message: 'Version must be a positive integer',
+        });
+        return;
+      }
+
+      const revertedMeal = await this.mealService.revertMeal(
+        id,
+        version,
+        this.getViewer(req)
+      );
+
+      if (!revertedMeal) {
+        res.status(404).json({
+          success: false,
+          message: 'Meal not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: revertedMeal,
+        message: `Meal reverted to version ${version}`,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('version not found')) {
+          res.status(404).json({
+            success: false,
+            message: 'Meal version not found',
+          });
+          return;
+        }
+        if (
+          error.message.includes('Cannot revert') ||
+          error.message.includes('validation failed')
+        ) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('Only admins')) {
+          res.status(403).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (this.handleRecipeError(error, res)) {
+          return;
+        }
+      }
+      throw new AppError('Failed to revert meal');
+    }
+  };
+
   // GET /api/v1/meals/tags
   public getAllTags = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -557,10 +1066,17 @@ export class MealController {
         return;
       }
 
+      const visibility = this.parseVisibility(req, res);
+      if (!visibility) {
+        return;
+      }
+
       const result = await this.mealService.getMealsByTags(
         tagArray,
         page,
-        limit
+        limit,
+        this.getViewer(req),
+        visibility
       );
 
       res.status(200).json({
@@ -578,6 +1094,7 @@ export class MealController {
     }
   };
 
+  // GET /api/v1/meals/user/:userId
   public getMealsByUser = async (
     req: Request,
     res: Response
@@ -0,0 +1,384 @@
+import { Request, Response } from 'express';
+import {
+  CreateMealTemplateRequest,
+  LogMealTemplateRequest,
+  MealTemplateItem,
+  UpdateMealTemplateRequest,
+} from '../models/MealTemplate';
+import { MealTemplateService } from '../services/mealTemplateService';
+import { OwnershipUtils } from '../utils/ownership';
+
+class AppError extends Error {
+  public statusCode: number;
+  public isOperational: boolean;
+
+  constructor(message: string, statusCode: number = 500) {
+    super(message);
+    this.statusCode = statusCode;
+    this.isOperational = true;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+const VALID_MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+export class MealTemplateController {
+  private mealTemplateService: MealTemplateService;
+
+  constructor() {
+    this.mealTemplateService = new MealTemplateService();
+  }
+
+  // Validate template items, returning an error message or null
+  private validateItems(items: MealTemplateItem[]): string | null {
+    if (!Array.isArray(items) || items.length === 0) {
+      return 'Items must be a non-empty array';
+    }
+
+    if (items.length > 20) {
+      return 'A template cannot have more than 20 items';
+    }
+
+    // Logging a template creates one log per meal, like any other slot, so
+    // each meal may only appear once
+    const mealIds = new Set<string>();
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+
+      if (!item.meal || item.servings === undefined) {
+        return `Item ${i + 1}: meal and servings are required`;
+      }
+
+      if (mealIds.has(String(item.meal))) {
+        return `Item ${i + 1}: meal is already in the template, combine the servings instead`;
+      }
+      mealIds.add(String(item.meal));
+
+      if (item.servings <= 0 || item.servings > 100) {
+        return `Item ${i + 1}: servings must be between 0.1 and 100`;
+      }
+
+      if (item.notes && item.notes.length > 500) {
+        return `Item ${i + 1}: notes cannot exceed 500 characters`;
+      }
+    }
+
+    return null;
+  }
+
+  // POST /api/v1/meal-templates
+  public createTemplate = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const templateData: CreateMealTemplateRequest = {
+        ...req.body,
+        user: OwnershipUtils.resolveOwner(req),
+      };
+
+      // Basic validation
+      if (!templateData.name || !templateData.mealType || !templateData.items) {
+        res.status(400).json({
+          success: false,
+          message: 'Name, meal type, and items are required',
+        });
+        return;
+      }
+
+      if (!VALID_MEAL_TYPES.includes(templateData.mealType)) {
+        res.status(400).json({
+          success: false,
+          message: 'Meal type must be one of: breakfast, lunch, dinner, snack',
+        });
+        return;
+      }
+
+      const itemsError = this.validateItems(templateData.items);
+      if (itemsError) {
+        res.status(400).json({
+          success: false,
+          message: itemsError,
+        });
+        return;
+      }
+
+      const newTemplate =
+        await this.mealTemplateService.createTemplate(templateData);
+
+      res.status(201).json({
+        success: true,
+        data: newTemplate,
+        message: 'Meal template created successfully',
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('validation failed')) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('Meal not found')) {
+          res.status(404).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('already exists')) {
+          res.status(409).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+      }
+      throw new AppError('Failed to create meal template');
+    }
+  };
+
+  // GET /api/v1/meal-templates/:id
+  public getTemplateById = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const template = await this.mealTemplateService.getTemplateById(
+        id,
+        OwnershipUtils.getOwnerScope(req)
+      );
+
+      if (!template) {
+        res.status(404).json({
+          success: false,
+          message: 'Meal template not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: template,
+      });
+    } catch (_) {
+      throw new AppError('Failed to fetch meal template');
+    }
+  };
+
+  // GET /api/v1/meal-templates/user/:userId
+  public getTemplatesByUser = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const mealType = req.query.mealType as string | undefined;
+
+      if (mealType && !VALID_MEAL_TYPES.includes(mealType)) {
+        res.status(400).json({
+          success: false,
+          message:
+            'Invalid meal type. Must be one of: breakfast, lunch, dinner, snack',
+        });
+        return;
+      }
+
+      const result = await this.mealTemplateService.getTemplatesByUser(
+        userId,
+        page,
+        limit,
+        mealType as 'breakfast' | 'lunch' | 'dinner' | 'snack' | undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        pagination: {
+          page: result.page,
+          pages: result.pages,
+          total: result.total,
+          limit,
+        },
+      });
+    } catch (_) {
+      throw new AppError('Failed to fetch meal templates');
+    }
+  };
+
+  // PUT /api/v1/meal-templates/:id
+  public updateTemplate = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const updateData: UpdateMealTemplateRequest = req.body;
+
+      if (
+        updateData.mealType !== undefined &&
+        !VALID_MEAL_TYPES.includes(updateData.mealType)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Meal type must be one of: breakfast, lunch, dinner, snack',
+        });
+        return;
+      }
+
+      if (updateData.items !== undefined) {
+        const itemsError = this.validateItems(updateData.items);
+        if (itemsError) {
+          res.status(400).json({
+            success: false,
+            message: itemsError,
+          });
+          return;
+        }
+      }
+
+      const updatedTemplate = await this.mealTemplateService.updateTemplate(
+        id,
+        updateData,
+        OwnershipUtils.getOwnerScope(req)
+      );
+
+      if (!updatedTemplate) {
+        res.status(404).json({
+          success: false,
+          message: 'Meal template not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: updatedTemplate,
+        message: 'Meal template updated successfully',
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (
+          error.message.includes('Validation failed') ||
+          error.message.includes('Invalid update field')
+        ) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('Meal not found')) {
+          res.status(404).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('already exists')) {
+          res.status(409).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+      }
+      throw new AppError('Failed to update meal template');
+    }
+  };
+
+  // DELETE /api/v1/meal-templates/:id
+  public deleteTemplate = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const deleted = await this.mealTemplateService.deleteTemplate(
+        id,
+        OwnershipUtils.getOwnerScope(req)
+      );
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Meal template not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Meal template deleted successfully',
+      });
+    } catch (_) {
+      throw new AppError('Failed to delete meal template');
+    }
+  };
+
+  // POST /api/v1/meal-templates/:id/log
+  public logTemplate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const logData: LogMealTemplateRequest = req.body;
+
+      if (
+        logData.mealType !== undefined &&
+        !VALID_MEAL_TYPES.includes(logData.mealType)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Meal type must be one of: breakfast, lunch, dinner, snack',
+        });
+        return;
+      }
+
+      if (logData.notes && logData.notes.length > 500) {
+        res.status(400).json({
+          success: false,
+          message: 'General notes cannot exceed 500 characters',
+        });
+        return;
+      }
+
+      const result = await this.mealTemplateService.logTemplate(
+        id,
+        logData,
+        OwnershipUtils.getOwnerScope(req)
+      );
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          message: 'Meal template not found',
+        });
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('validation failed')) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('Meal not found')) {
+          res.status(404).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+      }
+      throw new AppError('Failed to log meal template');
+    }
+  };
+}
@@ -0,0 +1,273 @@
+import { Request, Response } from 'express';
+import {
+  CreateNutritionGoalRequest,
+  UpdateNutritionGoalRequest,
+} from '../models/NutritionGoal';
+import { NutritionGoalService } from '../services/nutritionGoalService';
+import { OwnershipUtils } from '../utils/ownership';
+import { TimezoneUtils } from '../utils/timezone';
+
+class AppError extends Error {
+  public statusCode: number;
+  public isOperational: boolean;
+
+  constructor(message: string, statusCode: number = 500) {
+    super(message);
+    this.statusCode = statusCode;
+    this.isOperational = true;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+export class NutritionGoalController {
+  private nutritionGoalService: NutritionGoalService;
+
+  constructor() {
+    this.nutritionGoalService = new NutritionGoalService();
+  }
+
+  // POST /api/v1/nutrition-goals
+  public createGoal = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const goalData: CreateNutritionGoalRequest = {
+        ...req.body,
+        user: OwnershipUtils.resolveOwner(req),
+      };
+
+      if (!goalData.targets || goalData.targets.calories === undefined) {
+        res.status(400).json({
+          success: false,
+          message: 'Targets with a calorie target are required',
+        });
+        return;
+      }
+
+      if (
+        goalData.effectiveFrom !== undefined &&
+        !TimezoneUtils.isValidDateKey(goalData.effectiveFrom)
+      ) {
+        res.status(400).json({
+          success: false,
+          message:
+            'Effective from date must be a valid date in YYYY-MM-DD format',
+        });
+        return;
+      }
+
+      if (
+        goalData.weekdayTargets !== undefined &&
+        !Array.isArray(goalData.weekdayTargets)
+      ) {
+        res.status(400).json({
+          success: false,
+          message: 'Weekday targets must be an array',
+        });
+        return;
+      }
+
+      const newGoal = await this.nutritionGoalService.createGoal(goalData);
+
+      res.status(201).json({
+        success: true,
+        data: newGoal,
+        message: 'Nutrition goal created successfully',
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('validation failed')) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('already starts')) {
+          res.status(409).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+      }
+      throw new AppError('Failed to create nutrition goal');
+    }
+  };
+
+  // GET /api/v1/nutrition-goals/:id
+  public getGoalById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const goal = await this.nutritionGoalService.getGoalById(
+        id,
+        OwnershipUtils.getOwnerScope(req)
+      );
+
+      if (!goal) {
+        res.status(404).json({
+          success: false,
+          message: 'Nutrition goal not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: goal,
+      });
+    } catch (_) {
+      throw new AppError('Failed to fetch nutrition goal');
+    }
+  };
+
+  // GET /api/v1/nutrition-goals/user/:userId
+  public getGoalsByUser = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const result = await this.nutritionGoalService.getGoalsByUser(
+        userId,
+        page,
+        limit
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        pagination: {
+          page: result.page,
+          pages: result.pages,
+          total: result.total,
+          limit,
+        },
+      });
+    } catch (_) {
+      throw new AppError('Failed to fetch nutrition goals');
+    }
+  };
+
+  // GET /api/v1/nutrition-goals/active/:userId
+  public getActiveGoal = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const date = req.query.date as string | undefined;
+
+      if (date !== undefined && !TimezoneUtils.isValidDateKey(date)) {
+        res.status(400).json({
+          success: false,
+          message: 'Date must be a valid date in YYYY-MM-DD format',
+        });
+        return;
+      }
+
+      const goal = await this.nutritionGoalService.getActiveGoal(userId, date);
+
+      if (!goal) {
+        res.status(404).json({
+          success: false,
+          message: 'No nutrition goal in effect for this date',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: goal,
+      });
+    } catch (_) {
+      throw new AppError('Failed to fetch active nutrition goal');
+    }
+  };
+
+  // PUT /api/v1/nutrition-goals/:id
+  public updateGoal = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const updateData: UpdateNutritionGoalRequest = req.body;
+
+      if (
+        updateData.effectiveFrom !== undefined &&
+        !TimezoneUtils.isValidDateKey(updateData.effectiveFrom)
+      ) {
+        res.status(400).json({
+          success: false,
+          message:
+            'Effective from date must be a valid date in YYYY-MM-DD format',
+        });
+        return;
+      }
+
+      const updatedGoal = await this.nutritionGoalService.updateGoal(
+        id,
+        updateData,
+        OwnershipUtils.getOwnerScope(req)
+      );
+
+      if (!updatedGoal) {
+        res.status(404).json({
+          success: false,
+          message: 'Nutrition goal not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: updatedGoal,
+        message: 'Nutrition goal updated successfully',
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (
+          error.message.includes('Validation failed') ||
+          error.message.includes('Invalid update field')
+        ) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('already starts')) {
+          res.status(409).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+      }
+      throw new AppError('Failed to update nutrition goal');
+    }
+  };
+
+  // DELETE /api/v1/nutrition-goals/:id
+  public deleteGoal = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const deleted = await this.nutritionGoalService.deleteGoal(
+        id,
+        OwnershipUtils.getOwnerScope(req)
+      );
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Nutrition goal not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Nutrition goal deleted successfully',
+      });
+    } catch (_) {
+      throw new AppError('Failed to delete nutrition goal');
+    }
+  };
+}
@@ -1,5 +1,10 @@
 import { Request, Response } from 'express';
 import { QuantityUnitService } from '../services/quantityUnitService';
+import { MealService } from '../services/mealService';
+import { UNIT_DIMENSIONS, UnitDimension } from '../utils/units';
+import { DELETE_STRATEGIES } from '../models/Deletion';
+import { DeletionUtils } from '../utils/deletion';
+import { isAdmin } from '../middleware/auth';
 import {
   CreateQuantityUnitRequest,
   UpdateQuantityUnitRequest,
@@ -7,6 +12,28 @@ import {
 } from '../models/QuantityUnit';
 
 const quantityUnitService = new QuantityUnitService();
+const mealService = new MealService();
+
+// Validate an optional dimension/baseFactor pair, returning an error message
+// or null
+const validateConversionFields = (data: {
+  dimension?: UnitDimension;
+  baseFactor?: number;
+}): string | null => {
+  if (data.dimension === undefined && data.baseFactor === undefined) {
+    return null;
+  }
+  if (data.dimension === undefined || data.baseFactor === undefined) {
+    return 'dimension and baseFactor must be provided together';
+  }
+  if (!UNIT_DIMENSIONS.includes(data.dimension)) {
+    return 'dimension must be one of: mass, volume, count';
+  }
+  if (typeof data.baseFactor !== 'number' || data.baseFactor <= 0) {
+    return 'baseFactor must be a number > 0';
+  }
+  return null;
+};
 
 export class QuantityUnitController {
   public async createQuantityUnit(req: Request, res: Response): Promise<void> {
@@ -52,6 +79,15 @@ export class QuantityUnitController {
         return;
       }
 
+      const conversionError = validateConversionFields(data);
+      if (conversionError) {
+        res.status(400).json({
+          success: false,
+          message: conversionError,
+        });
+        return;
+      }
+
       const quantityUnit = await quantityUnitService.createQuantityUnit(data);
 
       res.status(201).json({
@@ -161,6 +197,15 @@ export class QuantityUnitController {
         return;
       }
 
+      const conversionError = validateConversionFields(data);
+      if (conversionError) {
+        res.status(400).json({
+          success: false,
+          message: conversionError,
+        });
+        return;
+      }
+
       const updatedUnit = await quantityUnitService.updateQuantityUnit(
         id,
         data
@@ -203,9 +248,18 @@ export class QuantityUnitController {
         return;
       }
 
-      const deleted = await quantityUnitService.deleteQuantityUnit(id);
+      const strategy = (req.query.strategy as string) || 'block';
+      if (!DeletionUtils.isValidStrategy(strategy)) {
+        res.status(400).json({
+          success: false,
+          message: `Strategy must be one of: ${DELETE_STRATEGIES.join(', ')}`,
+        });
+        return;
+      }
+
+      const result = await quantityUnitService.deleteQuantityUnit(id, strategy);
 
-      if (!deleted) {
+      if (!result) {
         res.status(404).json({
           success: false,
           message: 'Quantity unit not found',
@@ -213,9 +267,25 @@ export class QuantityUnitController {
         return;
       }
 
+      if (result.outcome === 'blocked') {
+        res.status(409).json({
+          success: false,
+          message:
+            strategy === 'cascade'
+              ? 'Quantity unit is still used by meals, archive it instead'
+              : 'Quantity unit is still in use',
+          dependents: result.dependents,
+        });
+        return;
+      }
+
       res.status(200).json({
         success: true,
-        message: 'Quantity unit deleted successfully',
+        data: result,
+        message:
+          result.outcome === 'archived'
+            ? 'Quantity unit archived successfully'
+            : 'Quantity unit deleted successfully',
       });
     } catch (error) {
       console.error('Error deleting quantity unit:', error);
@@ -420,4 +490,80 @@ export class QuantityUnitController {
       });
     }
   }
+
+  public async convertQuantity(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to, meal } = req.query;
+      const value = parseFloat(req.query.value as string);
+
+      if (!from || !to || req.query.value === undefined) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required query parameters: from, to, value',
+        });
+        return;
+      }
+
+      if (isNaN(value) || value < 0) {
+        res.status(400).json({
+          success: false,
+          message: 'value must be a number >= 0',
+        });
+        return;
+      }
+
+      // A meal's density allows converting between volume and mass
+      let density: number | undefined;
+      if (meal) {
+        // Only meals the caller can see, private meals stay hidden
+        const mealRecord = await mealService.getMealById(meal as string, {
+          userId: req.user?._id.toString(),
+          isAdmin: isAdmin(req.user),
+        });
+        if (!mealRecord) {
+          res.status(404).json({
+            success: false,
+            message: 'Meal not found',
+          });
+          return;
+        }
+        density = mealRecord.density;
+      }
+
+      const conversion = await quantityUnitService.convertAmount(
+        value,
+        from as string,
+        to as string,
+        density
+      );
+
+      res.status(200).json({
+        success: true,
+        data: conversion,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('not found')) {
+          res.status(404).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+        if (error.message.includes('Cannot convert')) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
+      }
+      console.error('Error converting quantity:', error);
+      res.status(500).json({
+        success: false,
+        message:
+          error instanceof Error ? error.message : 'Failed to convert quantity',
+      });
+    }
+  }
 }
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { TagService } from '../services/tagService';
+import { DELETE_STRATEGIES } from '../models/Deletion';
+import { DeletionUtils } from '../utils/deletion';
 
 class AppError extends Error {
   public statusCode: number;
@@ -207,9 +209,19 @@ export class TagController {
   public deleteTag = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const deleted = await this.tagService.deleteTag(id);
+      const strategy = (req.query.strategy as string) || 'block';
 
-      if (!deleted) {
+      if (!DeletionUtils.isValidStrategy(strategy)) {
+        res.status(400).json({
+          success: false,
+          message: `Strategy must be one of: ${DELETE_STRATEGIES.join(', ')}`,
+        });
+        return;
+      }
+
+      const result = await this.tagService.deleteTag(id, strategy);
+
+      if (!result) {
         res.status(404).json({
           success: false,
           message: 'Tag not found',
@@ -217,9 +229,22 @@ export class TagController {
         return;
       }
 
+      if (result.outcome === 'blocked') {
+        res.status(409).json({
+          success: false,
+          message: 'Tag is still in use',
+          dependents: result.dependents,
+        });
+        return;
+      }
+
       res.status(200).json({
         success: true,
-        message: 'Tag deleted successfully',
+        data: result,
+        message:
+          result.outcome === 'archived'
+            ? 'Tag archived successfully'
+            : 'Tag deleted successfully',
       });
     } catch (_) {
       throw new AppError('Failed to delete tag');
@@ -1,4 +1,6 @@
 import { Request, Response } from 'express';
+import { hasPermission } from '../middleware/auth';
+import { USER_ROLES, UserRole } from '../models/User';
 import { UserService } from '../services/userService';
 
 class AppError extends Error {
@@ -138,8 +140,11 @@ export class UserController {
       const updateData = req.body;
       const currentUser = req.user;
 
-      // Users can only update their own profile unless they're admin
-      if (currentUser._id.toString() !== id && !this.isAdmin(currentUser)) {
+      // Users can only update their own profile unless they manage users
+      if (
+        currentUser._id.toString() !== id &&
+        !hasPermission(currentUser, 'users:manage')
+      ) {
         res.status(403).json({
           success: false,
           message: 'You can only update your own profile',
@@ -171,19 +176,18 @@ export class UserController {
           });
           return;
         }
+        if (error.message.includes('Validation failed')) {
+          res.status(400).json({
+            success: false,
+            message: error.message,
+          });
+          return;
+        }
       }
       throw new AppError('Failed to update user');
     }
   };
 
-  // Helper method to check if user is admin
-  private isAdmin(user: any): boolean {
-    const adminEmails = process.env.ADMIN_EMAILS?.split(',') || [
-      'admin@example.com',
-    ];
-    return adminEmails.includes(user.email);
-  }
-
   // DELETE /api/v1/users/:id
   public deleteUser = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -207,6 +211,90 @@ export class UserController {
     }
   };
 
+  // POST /api/v1/users/:id/roles
+  public grantRole = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { role } = req.body;
+
+      if (!USER_ROLES.includes(role)) {
+        res.status(400).json({
+          success: false,
+          message: `Role must be one of: ${USER_ROLES.join(', ')}`,
+        });
+        return;
+      }
+
+      const user = await this.userService.grantRole(id, role);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: user,
+        message: `Role ${role} granted successfully`,
+      });
+    } catch (_) {
+      throw new AppError('Failed to grant role');
+    }
+  };
+
+  // DELETE /api/v1/users/:id/roles/:role
+  public revokeRole = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const role = req.params.role as UserRole;
+
+      if (!USER_ROLES.includes(role)) {
+        res.status(400).json({
+          success: false,
+          message: `Role must be one of: ${USER_ROLES.join(', ')}`,
+        });
+        return;
+      }
+
+      const user = await this.userService.revokeRole(id, role);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: user,
+        message: `Role ${role} revoked successfully`,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('cannot be revoked')) {
+          res.status(400).json({
+            success: false,
+            message: 'The user role cannot be revoked',
+          });
+          return;
+        }
+        if (error.message.includes('last admin')) {
+          res.status(409).json({
+            success: false,
+            message: 'Cannot revoke the admin role from the last admin',
+          });
+          return;
+        }
+      }
+      throw new AppError('Failed to revoke role');
+    }
+  };
+
   // GET /api/v1/users/search
   public searchUsers = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -1,12 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthUtils } from '../utils/auth';
+import { Permission, ROLE_PERMISSIONS, UserRole } from '../models/User';
 import User from '../models/UserSchema';
+import { SessionService } from '../services/sessionService';
 
-// Extend Request interface to include user
+const sessionService = new SessionService();
+
+// Extend Request interface to include user and their session
 declare global {
   namespace Express {
     interface Request {
       user?: any;
+      sessionId?: string; // Session the access token was issued for
     }
   }
 }
@@ -43,8 +48,21 @@ export const authenticate = async (
       return;
     }
 
+    // Access tokens are only valid while their session is
+    if (
+      !decoded.sessionId ||
+      !(await sessionService.touchSession(decoded.sessionId, decoded.userId))
+    ) {
+      res.status(401).json({
+        success: false,
+        message: 'Session has expired or been revoked.',
+      });
+      return;
+    }
+
     // Add user to request object
     req.user = user;
+    req.sessionId = decoded.sessionId;
     next();
   } catch (_) {
     res.status(401).json({
@@ -67,8 +85,13 @@ export const optionalAuth = async (
       const decoded = AuthUtils.verifyToken(token);
       const user = await User.findById(decoded.userId).select('-password');
 
-      if (user) {
+      if (
+        user &&
+        decoded.sessionId &&
+        (await sessionService.touchSession(decoded.sessionId, decoded.userId))
+      ) {
         req.user = user;
+        req.sessionId = decoded.sessionId;
       }
     }
 
@@ -79,32 +102,101 @@ export const optionalAuth = async (
   }
 };
 
-export const requireAdmin = (
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void => {
-  if (!req.user) {
-    res.status(401).json({
-      success: false,
-      message: 'Authentication required.',
-    });
-    return;
+// Helper to check if a user has any of the given roles
+export const hasRole = (user: any, ...roles: UserRole[]): boolean => {
+  if (!user || !Array.isArray(user.roles)) {
+    return false;
   }
 
-  // For now, we'll use email-based admin check
-  // In a real app, you'd have a role field in the user model
-  const adminEmails = process.env.ADMIN_EMAILS?.split(',') || [
-    'admin@example.com',
-  ];
+  return user.roles.some((role: UserRole) => roles.includes(role));
+};
 
-  if (!adminEmails.includes(req.user.email)) {
-    res.status(403).json({
-      success: false,
-      message: 'Admin access required.',
-    });
-    return;
+// Helper to check if any of a user's roles grants a permission
+export const hasPermission = (user: any, permission: Permission): boolean => {
+  if (!user || !Array.isArray(user.roles)) {
+    return false;
   }
 
-  next();
+  return user.roles.some((role: UserRole) =>
+    ROLE_PERMISSIONS[role]?.includes(permission)
+  );
+};
+
+// Helper to check if a user has admin access
+export const isAdmin = (user: any): boolean => {
+  return hasRole(user, 'admin');
+};
+
+// Only allow users with at least one of the given roles
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required.',
+      });
+      return;
+    }
+
+    if (!hasRole(req.user, ...roles)) {
+      res.status(403).json({
+        success: false,
+        message: `One of these roles is required: ${roles.join(', ')}.`,
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+// Only allow users whose roles grant the given permission
+export const requirePermission = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required.',
+      });
+      return;
+    }
+
+    if (!hasPermission(req.user, permission)) {
+      res.status(403).json({
+        success: false,
+        message: `Permission required: ${permission}.`,
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+export const requireAdmin = requireRole('admin');
+
+// Only allow access when the route's user param matches the caller, unless admin
+export const requireSelfOrAdmin = (paramName: string = 'userId') => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required.',
+      });
+      return;
+    }
+
+    if (
+      req.params[paramName] !== req.user._id.toString() &&
+      !isAdmin(req.user)
+    ) {
+      res.status(403).json({
+        success: false,
+        message: 'You can only access your own data.',
+      });
+      return;
+    }
+
+    next();
+  };
 };
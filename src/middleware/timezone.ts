@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { TimezoneUtils } from '../utils/timezone';
+
+// Validate an optional per-request timezone override (query or body)
+export const validateTimezone = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const timezone = req.query.timezone || req.body?.timezone;
+
+  if (
+    timezone !== undefined &&
+    !TimezoneUtils.isValidTimezone(timezone as string)
+  ) {
+    res.status(400).json({
+      success: false,
+      message: 'Timezone must be a valid IANA timezone (e.g. Europe/London)',
+    });
+    return;
+  }
+
+  next();
+};
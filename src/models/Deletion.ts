@@ -0,0 +1,24 @@
+// How to handle records that still reference something being deleted:
+// - block: refuse to delete while anything references it (default)
+// - cascade: remove or rewrite the references, then delete
+// - archive: keep the record but mark it inactive, so references stay valid
+export type DeleteStrategy = 'block' | 'cascade' | 'archive';
+
+export const DELETE_STRATEGIES: DeleteStrategy[] = [
+  'block',
+  'cascade',
+  'archive',
+];
+
+export interface DeleteDependent {
+  type: string; // e.g. 'foodLogs', 'meals', 'mealTemplates'
+  count: number;
+  ids: string[]; // Up to 20 example IDs
+  blocking: boolean; // True when cascade cannot remove these references
+}
+
+export interface DeleteResult {
+  strategy: DeleteStrategy;
+  outcome: 'deleted' | 'archived' | 'blocked';
+  dependents: DeleteDependent[];
+}
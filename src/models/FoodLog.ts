@@ -1,12 +1,31 @@
+import { NutritionAdherence, NutritionTargets } from './NutritionGoal';
+import { MicronutrientTotals, Micronutrients } from '../utils/nutrients';
+
+export interface FoodLogNutritionSnapshot extends Micronutrients {
+  name: string;
+  calories: number; // Per serving
+  protein: number; // Per serving
+  fat?: number; // Per serving
+  carbs?: number; // Per serving
+  quantity: number; // Meal reference quantity
+  quantityUnit?: string; // QuantityUnit ID
+  density?: number; // Grams per millilitre, if the meal had one
+  syncedAt: number; // When the snapshot was taken (epoch timestamp)
+}
+
 export interface FoodLog {
   _id: string;
   user: string;
   meal: string; // Reference to Meal ID
   mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack'; // check and update ... make sure to use this in all the places where meal type is used
   servings: number; // How many servings
+  amount?: number; // Entered amount, when logged by amount instead of servings
+  quantityUnit?: string; // QuantityUnit ID of the entered amount
+  nutrition?: FoodLogNutritionSnapshot; // Meal nutrition at the time of logging
   logDate: number; // Date for which the food is being logged (epoch timestamp)
   loggedAt: number; // When the log entry was created (epoch timestamp)
   notes?: string;
+  deletedAt?: number; // Set while the log is in the trash (epoch timestamp)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -15,27 +34,36 @@ export interface CreateFoodLogRequest {
   user: string;
   meal: string;
   mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  servings: number;
+  servings?: number; // Required unless amount and quantityUnit are given
+  amount?: number; // Alternative to servings, e.g. 150 (g)
+  quantityUnit?: string; // QuantityUnit ID of the amount
   logDate?: number; // Date for which the food is being logged (epoch timestamp)
   loggedAt?: number; // When the log entry was created (epoch timestamp)
   notes?: string;
+  timezone?: string; // Overrides the user's timezone for logDate normalization
 }
 
 export interface UpdateFoodLogRequest {
   meal?: string;
   mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
   servings?: number;
+  amount?: number; // Alternative to servings, requires quantityUnit
+  quantityUnit?: string;
   logDate?: number; // Date for which the food is being logged (epoch timestamp)
   loggedAt?: number; // When the log entry was created (epoch timestamp)
   notes?: string;
+  timezone?: string; // Overrides the user's timezone for logDate normalization
 }
 
+export type NutritionGranularity = 'day' | 'week' | 'month';
+
 export interface DailyNutritionSummary {
-  date: string;
+  date: string; // Local day, or first local day of the week/month bucket
   totalCalories: number;
   totalProtein: number;
   totalFat: number;
   totalCarbs: number;
+  totalMicronutrients: MicronutrientTotals; // Meals that don't track a nutrient add 0
   mealBreakdown: {
     breakfast: {
       calories: number;
@@ -67,6 +95,66 @@ export interface DailyNutritionSummary {
     };
   };
   totalItems: number;
+  loggingDays: number; // Distinct local days with logs in the bucket
+  goal?: NutritionTargets; // Targets in effect for the day, if a goal is set
+  adherence?: NutritionAdherence;
+}
+
+export interface FoodLogStatsTotals {
+  totalLogs: number;
+  totalServings: number;
+  totalCalories: number;
+  totalProtein: number;
+  totalFat: number;
+  totalCarbs: number;
+  loggingDays: number; // Distinct user-local days with at least one log
+  averageDailyCalories: number; // Averaged over logging days
+  averageDailyProtein: number;
+  averageDailyFat: number;
+  averageDailyCarbs: number;
+  firstLogDate?: number; // Epoch timestamp
+  lastLogDate?: number; // Epoch timestamp
+}
+
+export interface FoodLogStats {
+  lifetime: FoodLogStatsTotals;
+  window: FoodLogStatsTotals & {
+    startDate: number; // Epoch timestamp
+    endDate: number; // Epoch timestamp
+  };
+  mostLoggedMeals: {
+    meal: string;
+    name: string;
+    count: number;
+    totalServings: number;
+    totalCalories: number;
+  }[];
+  mealTypeShare: {
+    mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+    logs: number;
+    calories: number;
+    percentage: number; // Share of window calories (0-100)
+  }[];
+}
+
+export interface LoggingStreakCriteria {
+  requireMealTypes: ('breakfast' | 'lunch' | 'dinner' | 'snack')[]; // All must be logged
+  minCalories: number; // Daily calorie floor, 0 for none
+}
+
+export interface LoggingStreaks {
+  criteria: LoggingStreakCriteria;
+  currentStreak: number; // Days, still counts if today is not logged yet
+  longestStreak: number;
+  longestStreakStart: string | null; // Local date (YYYY-MM-DD)
+  longestStreakEnd: string | null;
+  lastLoggedDate: string | null;
+  totalLoggedDays: number;
+  weeklyConsistency: {
+    weekStart: string; // Local Monday (YYYY-MM-DD)
+    daysLogged: number; // 0-7
+  }[];
+  averageDaysPerWeek: number;
 }
 
 export interface FoodLogSearchParams {
@@ -80,7 +168,9 @@ export interface FoodLogSearchParams {
 
 export interface BulkFoodLogItem {
   meal: string; // Reference to Meal ID
-  servings: number; // How many servings
+  servings?: number; // How many servings, required unless amount is given
+  amount?: number; // Alternative to servings, requires quantityUnit
+  quantityUnit?: string; // QuantityUnit ID of the amount
   notes?: string;
 }
 
@@ -91,6 +181,7 @@ export interface CreateBulkFoodLogRequest {
   logDate?: number; // Date for which the food is being logged (epoch timestamp)
   loggedAt?: number; // When the log entry was created (epoch timestamp)
   notes?: string; // General notes for the entire bulk log
+  timezone?: string; // Overrides the user's timezone for logDate normalization
 }
 
 export interface BulkFoodLogResponse {
@@ -112,3 +203,60 @@ export interface BulkFoodLogResponse {
   };
   message: string;
 }
+
+export interface CopyFoodLogsRequest {
+  user: string;
+  sourceDate: number; // Any timestamp within the source day (epoch timestamp)
+  targetDates: number[]; // Any timestamp within each target day (epoch timestamps)
+  mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack'; // Copy one slot only
+  timezone?: string; // Overrides the user's timezone for day boundaries
+}
+
+// A meal of the source day that was not copied, e.g. because its logs add
+// up to more servings than one log can hold
+export interface SkippedCopyItem {
+  meal: string; // Meal ID
+  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  servings: number;
+  error: string;
+}
+
+export interface CopyFoodLogsResponse {
+  success: boolean;
+  data: {
+    sourceDate: number; // Start of the source day (epoch timestamp)
+    mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+    results: BulkFoodLogResponse['data'][]; // One per target date and meal type
+    totalItems: number;
+    newItems: number;
+    updatedItems: number;
+    skippedItems: SkippedCopyItem[];
+  };
+  message: string;
+}
+
+export type FoodLogExportFormat = 'csv' | 'json';
+
+// One exported log, with nutrition already scaled by servings
+export interface FoodLogExportRow {
+  id: string;
+  date: string; // Local date of the log (YYYY-MM-DD)
+  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  meal: string; // Meal name
+  servings: number;
+  amount?: number; // Entered amount when logged by amount
+  unit?: string; // Short name of the entered amount's unit
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+  notes?: string;
+  logDate: number; // Epoch timestamp
+  loggedAt: number; // Epoch timestamp
+}
+
+export interface FoodLogExportOptions {
+  startDate?: number; // Any timestamp within the first day to export
+  endDate?: number; // Any timestamp within the last day to export
+  timezone?: string; // Overrides the user's timezone for local dates
+}
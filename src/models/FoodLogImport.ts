@@ -0,0 +1,129 @@
+export type FoodLogImportPresetName = 'bite-count' | 'cronometer' | 'loseit';
+
+export type FoodLogImportDateFormat =
+  | 'YYYY-MM-DD'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YYYY';
+
+export const FOOD_LOG_IMPORT_DATE_FORMATS: FoodLogImportDateFormat[] = [
+  'YYYY-MM-DD',
+  'MM/DD/YYYY',
+  'DD/MM/YYYY',
+];
+
+// Whether nutrition columns hold totals for the row's quantity or the
+// nutrition of a single serving/unit
+export type FoodLogImportNutritionBasis = 'total' | 'serving';
+
+// CSV header of each field (matched case-insensitively). Columns that are
+// not mapped are treated as empty.
+export interface FoodLogImportColumns {
+  date: string;
+  meal: string; // Food/meal name
+  calories: string;
+  mealType?: string;
+  quantity?: string; // Servings, or an amount such as "150 g"
+  unit?: string; // Unit of the quantity, if kept in its own column
+  protein?: string;
+  fat?: string;
+  carbs?: string;
+  notes?: string;
+}
+
+export interface FoodLogImportPreset {
+  columns: FoodLogImportColumns;
+  dateFormat: FoodLogImportDateFormat;
+  nutritionBasis: FoodLogImportNutritionBasis;
+}
+
+export const FOOD_LOG_IMPORT_PRESETS: {
+  [name in FoodLogImportPresetName]: FoodLogImportPreset;
+} = {
+  // Same layout as GET /food-logs/export/:userId?format=csv
+  'bite-count': {
+    columns: {
+      date: 'date',
+      meal: 'meal',
+      calories: 'calories',
+      mealType: 'mealType',
+      quantity: 'servings',
+      protein: 'protein',
+      fat: 'fat',
+      carbs: 'carbs',
+      notes: 'notes',
+    },
+    dateFormat: 'YYYY-MM-DD',
+    nutritionBasis: 'total',
+  },
+  // Cronometer "Food & Recipe Entries" export
+  cronometer: {
+    columns: {
+      date: 'Day',
+      meal: 'Food Name',
+      calories: 'Energy (kcal)',
+      mealType: 'Group',
+      quantity: 'Amount',
+      protein: 'Protein (g)',
+      fat: 'Fat (g)',
+      carbs: 'Carbs (g)',
+    },
+    dateFormat: 'YYYY-MM-DD',
+    nutritionBasis: 'total',
+  },
+  // Lose It! "Food Log" export
+  loseit: {
+    columns: {
+      date: 'Date',
+      meal: 'Name',
+      calories: 'Calories',
+      mealType: 'Type',
+      quantity: 'Quantity',
+      unit: 'Units',
+      protein: 'Protein (g)',
+      fat: 'Fat (g)',
+      carbs: 'Carbohydrates (g)',
+    },
+    dateFormat: 'MM/DD/YYYY',
+    nutritionBasis: 'total',
+  },
+};
+
+export interface ImportFoodLogsRequest {
+  user: string;
+  csv: string;
+  preset?: FoodLogImportPresetName; // Defaults to bite-count
+  columns?: Partial<FoodLogImportColumns>; // Overrides the preset's columns
+  dateFormat?: FoodLogImportDateFormat; // Overrides the preset's date format
+  nutritionBasis?: FoodLogImportNutritionBasis; // Overrides the preset's basis
+  mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack'; // For rows without one
+  dryRun?: boolean; // Report what would happen without saving anything
+  timezone?: string; // Overrides the user's timezone for log dates
+}
+
+export type FoodLogImportRowStatus = 'matched' | 'new-meal' | 'error';
+
+export interface FoodLogImportRowReport {
+  row: number; // Line number in the CSV, the header being line 1
+  status: FoodLogImportRowStatus;
+  date?: string; // YYYY-MM-DD
+  mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  meal?: string; // Name as given in the CSV
+  servings?: number; // Servings of the matched or new meal
+  amount?: number; // Entered amount, when the row has a unit
+  unit?: string; // Short name of the resolved unit
+  mealId?: string; // Matched meal, or the created one after a real import
+  errors: string[];
+}
+
+export interface ImportFoodLogsResponse {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  matchedRows: number;
+  newMealRows: number;
+  mealsCreated: number; // Distinct meals created (or to be created)
+  logsCreated: number; // Always 0 for a dry run
+  logsUpdated: number; // Existing logs for the same day, slot and meal
+  rows: FoodLogImportRowReport[];
+}
@@ -1,4 +1,25 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { DEFAULT_TIMEZONE, TimezoneUtils } from '../utils/timezone';
+import {
+  MICRONUTRIENT_KEYS,
+  Micronutrients,
+  NutrientUtils,
+} from '../utils/nutrients';
+import { NutritionGranularity } from './FoodLog';
+import Meal from './MealSchema';
+
+// Interface for the meal nutrition captured when the food was logged
+export interface IFoodLogNutrition extends Micronutrients {
+  name: string;
+  calories: number;
+  protein: number;
+  fat?: number;
+  carbs?: number;
+  quantity: number;
+  quantityUnit?: mongoose.Types.ObjectId;
+  density?: number; // Grams per millilitre, if the meal had one
+  syncedAt: number; // When the snapshot was taken (epoch timestamp)
+}
 
 // Interface for the FoodLog document
 export interface IFoodLog extends Document {
@@ -6,13 +27,44 @@ export interface IFoodLog extends Document {
   meal: mongoose.Types.ObjectId;
   mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
   servings: number;
+  amount?: number;
+  quantityUnit?: mongoose.Types.ObjectId;
+  nutrition?: IFoodLogNutrition; // Per-serving nutrition snapshot of the meal
   logDate: number; // Date for which the food is being logged (epoch timestamp)
   loggedAt: number; // When the log entry was created (epoch timestamp)
   notes?: string;
+  deletedAt?: number; // When the log was moved to the trash (epoch timestamp)
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Micronutrients are copied as-is, the meal schema already bounds them
+const snapshotMicronutrientFields: { [key: string]: any } = {};
+MICRONUTRIENT_KEYS.forEach(key => {
+  snapshotMicronutrientFields[key] = {
+    type: Number,
+    min: 0,
+    default: undefined,
+  };
+});
+
+// Nutrition snapshot sub-schema (per serving, copied from the meal at log time)
+const foodLogNutritionSchema = new Schema<IFoodLogNutrition>(
+  {
+    name: { type: String, required: true, trim: true },
+    calories: { type: Number, required: true, min: 0 },
+    protein: { type: Number, required: true, min: 0 },
+    fat: { type: Number, min: 0, default: undefined },
+    carbs: { type: Number, min: 0, default: undefined },
+    quantity: { type: Number, required: true, min: 0 },
+    quantityUnit: { type: Schema.Types.ObjectId, ref: 'QuantityUnit' },
+    density: { type: Number },
+    ...snapshotMicronutrientFields,
+    syncedAt: { type: Number, required: true, default: () => Date.now() },
+  },
+  { _id: false }
+);
+
 // Mongoose schema definition
 const foodLogSchema = new Schema<IFoodLog>(
   {
@@ -37,12 +89,30 @@ const foodLogSchema = new Schema<IFoodLog>(
       },
       index: true,
     },
+    // Servings derived from an amount may be well below 0.1 (5 g of a 100 g
+    // meal), the minimum for servings entered directly is checked by the API
     servings: {
       type: Number,
       required: [true, 'Servings is required'],
-      min: [0.1, 'Servings must be at least 0.1'],
+      min: [0.000001, 'Servings must be greater than 0'],
       max: [100, 'Servings cannot exceed 100'],
     },
+    // Amount as entered when logging by weight/volume; servings is derived
+    amount: {
+      type: Number,
+      min: [0.01, 'Amount must be greater than 0'],
+      max: [100000, 'Amount cannot exceed 100000'],
+      default: undefined,
+    },
+    quantityUnit: {
+      type: Schema.Types.ObjectId,
+      ref: 'QuantityUnit',
+      default: undefined,
+    },
+    nutrition: {
+      type: foodLogNutritionSchema,
+      required: false,
+    },
     logDate: {
       type: Number,
       required: [true, 'Log date is required'],
@@ -60,6 +130,10 @@ const foodLogSchema = new Schema<IFoodLog>(
       maxlength: [500, 'Notes cannot exceed 500 characters'],
       trim: true,
     },
+    deletedAt: {
+      type: Number,
+      default: undefined,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -72,146 +146,252 @@ foodLogSchema.index({ user: 1, logDate: -1 }); // For user's food log history by
 foodLogSchema.index({ user: 1, mealType: 1, logDate: -1 }); // For meal type filtering by log date
 foodLogSchema.index({ logDate: 1 }); // For date range queries by log date
 foodLogSchema.index({ user: 1, loggedAt: -1 }); // For user's food log history by creation time
+foodLogSchema.index({ user: 1, deletedAt: -1 }); // For the user's trash
+foodLogSchema.index({ deletedAt: 1 }, { sparse: true }); // For purging expired trash
+
+// Query operations that skip trashed logs
+const TRASH_AWARE_QUERIES = [
+  'find',
+  'findOne',
+  'findOneAndUpdate',
+  'findOneAndDelete',
+  'countDocuments',
+  'updateOne',
+  'updateMany',
+  'deleteOne',
+  'deleteMany',
+] as const;
+
+// Trashed logs are hidden from every query unless the filter asks about
+// `deletedAt` itself or the query sets the `withDeleted` option
+foodLogSchema.pre(TRASH_AWARE_QUERIES as any, function (this: any, next) {
+  const filter = this.getFilter();
+  if (!this.getOptions().withDeleted && !('deletedAt' in filter)) {
+    this.where({ deletedAt: null });
+  }
+  next();
+});
+
+// Aggregations (summaries, stats, streaks) never include trashed logs
+foodLogSchema.pre('aggregate', function (next) {
+  this.pipeline().unshift({ $match: { deletedAt: null } });
+  next();
+});
+
+// Nutrition source for a log: the snapshot, or the populated meal for logs
+// created before snapshots were introduced
+const getLogNutrition = (log: any): any => log.nutrition || log.meal || {};
+
+// Build one aggregation expression per micronutrient
+const micronutrientExpressions = (
+  build: (key: string) => any
+): { [key: string]: any } => {
+  const fields: { [key: string]: any } = {};
+  MICRONUTRIENT_KEYS.forEach(key => {
+    fields[key] = build(key);
+  });
+  return fields;
+};
+
+// Aggregation stages that resolve each log's nutrition (snapshot, falling
+// back to the current meal) and add servings-scaled calories/protein/fat/carbs
+// plus each micronutrient
+export const logNutritionStages = (): any[] => [
+  {
+    $lookup: {
+      from: Meal.collection.name,
+      localField: 'meal',
+      foreignField: '_id',
+      as: 'currentMeal',
+    },
+  },
+  {
+    $addFields: {
+      source: {
+        $ifNull: ['$nutrition', { $arrayElemAt: ['$currentMeal', 0] }],
+      },
+    },
+  },
+  {
+    $addFields: {
+      calories: {
+        $multiply: ['$servings', { $ifNull: ['$source.calories', 0] }],
+      },
+      protein: {
+        $multiply: ['$servings', { $ifNull: ['$source.protein', 0] }],
+      },
+      fat: { $multiply: ['$servings', { $ifNull: ['$source.fat', 0] }] },
+      carbs: { $multiply: ['$servings', { $ifNull: ['$source.carbs', 0] }] },
+      ...micronutrientExpressions(key => ({
+        $multiply: ['$servings', { $ifNull: [`$source.${key}`, 0] }],
+      })),
+    },
+  },
+];
+
+const emptyMealTypeTotals = () => ({
+  calories: 0,
+  protein: 0,
+  fat: 0,
+  carbs: 0,
+  items: 0,
+});
+
+const buildEmptySummary = (date: string) => ({
+  date,
+  totalCalories: 0,
+  totalProtein: 0,
+  totalFat: 0,
+  totalCarbs: 0,
+  totalMicronutrients: NutrientUtils.emptyMicronutrientTotals(),
+  mealBreakdown: {
+    breakfast: emptyMealTypeTotals(),
+    lunch: emptyMealTypeTotals(),
+    dinner: emptyMealTypeTotals(),
+    snack: emptyMealTypeTotals(),
+  },
+  totalItems: 0,
+  loggingDays: 0,
+});
 
 // Static method to get daily nutrition summary
 foodLogSchema.statics.getDailyNutritionSummary = async function (
   userId: string,
-  date: number
+  date: number,
+  timezone: string = DEFAULT_TIMEZONE
 ): Promise<any> {
-  const startOfDay = new Date(date);
-  startOfDay.setHours(0, 0, 0, 0);
-  const startOfDayEpoch = startOfDay.getTime();
-
-  const endOfDay = new Date(date);
-  endOfDay.setHours(23, 59, 59, 999);
-  const endOfDayEpoch = endOfDay.getTime();
-
-  const logs = await this.find({
-    user: userId,
-    logDate: { $gte: startOfDayEpoch, $lte: endOfDayEpoch },
-  }).populate('meal', 'name calories protein fat carbs quantity quantityUnit');
-
-  const summary = {
-    date: startOfDay.toISOString().split('T')[0],
-    totalCalories: 0,
-    totalProtein: 0,
-    totalFat: 0,
-    totalCarbs: 0,
-    mealBreakdown: {
-      breakfast: { calories: 0, protein: 0, fat: 0, carbs: 0, items: 0 },
-      lunch: { calories: 0, protein: 0, fat: 0, carbs: 0, items: 0 },
-      dinner: { calories: 0, protein: 0, fat: 0, carbs: 0, items: 0 },
-      snack: { calories: 0, protein: 0, fat: 0, carbs: 0, items: 0 },
-    },
-    totalItems: 0,
-  };
-
-  logs.forEach((log: any) => {
-    const meal = log.meal as any;
-    const multiplier = log.servings;
-
-    const calories = (meal.calories || 0) * multiplier;
-    const protein = (meal.protein || 0) * multiplier;
-    const fat = (meal.fat || 0) * multiplier;
-    const carbs = (meal.carbs || 0) * multiplier;
-
-    // Add to totals
-    summary.totalCalories += calories;
-    summary.totalProtein += protein;
-    summary.totalFat += fat;
-    summary.totalCarbs += carbs;
-    summary.totalItems += 1;
-
-    // Add to meal breakdown
-    const mealType = log.mealType as 'breakfast' | 'lunch' | 'dinner' | 'snack';
-    summary.mealBreakdown[mealType].calories += calories;
-    summary.mealBreakdown[mealType].protein += protein;
-    summary.mealBreakdown[mealType].fat += fat;
-    summary.mealBreakdown[mealType].carbs += carbs;
-    summary.mealBreakdown[mealType].items += 1;
-  });
+  const [summary] = await (this as any).getNutritionSummaryRange(
+    userId,
+    date,
+    date,
+    timezone,
+    'day'
+  );
 
-  return summary;
+  return summary || buildEmptySummary(TimezoneUtils.toDateKey(date, timezone));
 };
 
-// Static method to get nutrition summary for date range
+// Static method to get nutrition summaries for a date range, bucketed by the
+// user's local day, week (starting Monday) or month
 foodLogSchema.statics.getNutritionSummaryRange = async function (
   userId: string,
   startDate: number,
-  endDate: number
+  endDate: number,
+  timezone: string = DEFAULT_TIMEZONE,
+  granularity: NutritionGranularity = 'day'
 ): Promise<any[]> {
-  const startOfDay = new Date(startDate);
-  startOfDay.setHours(0, 0, 0, 0);
-  const startOfDayEpoch = startOfDay.getTime();
-
-  const endOfDay = new Date(endDate);
-  endOfDay.setHours(23, 59, 59, 999);
-  const endOfDayEpoch = endOfDay.getTime();
-
-  const logs = await this.find({
-    user: userId,
-    logDate: { $gte: startOfDayEpoch, $lte: endOfDayEpoch },
-  }).populate('meal', 'name calories protein fat carbs quantity quantityUnit');
-
-  // Group by date
-  const dailySummaries: { [key: string]: any } = {};
-
-  logs.forEach((log: any) => {
-    const date = new Date(log.logDate).toISOString().split('T')[0];
-
-    if (!dailySummaries[date]) {
-      dailySummaries[date] = {
-        date,
-        totalCalories: 0,
-        totalProtein: 0,
-        totalFat: 0,
-        totalCarbs: 0,
-        mealBreakdown: {
-          breakfast: { calories: 0, protein: 0, fat: 0, carbs: 0, items: 0 },
-          lunch: { calories: 0, protein: 0, fat: 0, carbs: 0, items: 0 },
-          dinner: { calories: 0, protein: 0, fat: 0, carbs: 0, items: 0 },
-          snack: { calories: 0, protein: 0, fat: 0, carbs: 0, items: 0 },
-        },
-        totalItems: 0,
-      };
-    }
-
-    const meal = log.meal as any;
-    const multiplier = log.servings;
-
-    const calories = (meal.calories || 0) * multiplier;
-    const protein = (meal.protein || 0) * multiplier;
-    const fat = (meal.fat || 0) * multiplier;
-    const carbs = (meal.carbs || 0) * multiplier;
-
-    // Add to totals
-    dailySummaries[date].totalCalories += calories;
-    dailySummaries[date].totalProtein += protein;
-    dailySummaries[date].totalFat += fat;
-    dailySummaries[date].totalCarbs += carbs;
-    dailySummaries[date].totalItems += 1;
-
-    // Add to meal breakdown
-    const mealType = log.mealType as 'breakfast' | 'lunch' | 'dinner' | 'snack';
-    dailySummaries[date].mealBreakdown[mealType].calories += calories;
-    dailySummaries[date].mealBreakdown[mealType].protein += protein;
-    dailySummaries[date].mealBreakdown[mealType].fat += fat;
-    dailySummaries[date].mealBreakdown[mealType].carbs += carbs;
-    dailySummaries[date].mealBreakdown[mealType].items += 1;
+  // Day boundaries are the user's local midnights
+  const startOfDayEpoch = TimezoneUtils.startOfDay(startDate, timezone);
+  const endOfDayEpoch = TimezoneUtils.endOfDay(endDate, timezone);
+
+  const toLocalDateKey = (date: any) => ({
+    $dateToString: { format: '%Y-%m-%d', date, timezone },
   });
 
-  return Object.values(dailySummaries).sort(
-    (a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime()
-  );
+  // Weeks are keyed by their (ISO) Monday, months by their first day
+  const buckets: { [key in NutritionGranularity]: any } = {
+    day: toLocalDateKey('$logTime'),
+    week: toLocalDateKey({
+      $dateFromParts: {
+        isoWeekYear: { $isoWeekYear: { date: '$logTime', timezone } },
+        isoWeek: { $isoWeek: { date: '$logTime', timezone } },
+        isoDayOfWeek: 1,
+        timezone,
+      },
+    }),
+    month: {
+      $dateToString: { format: '%Y-%m-01', date: '$logTime', timezone },
+    },
+  };
+  const bucket = buckets[granularity];
+
+  return this.aggregate([
+    {
+      $match: {
+        user: new mongoose.Types.ObjectId(userId),
+        logDate: { $gte: startOfDayEpoch, $lte: endOfDayEpoch },
+      },
+    },
+    ...logNutritionStages(),
+    { $addFields: { logTime: { $toDate: '$logDate' } } },
+    // Totals per bucket and meal type
+    {
+      $group: {
+        _id: { bucket, mealType: '$mealType' },
+        calories: { $sum: '$calories' },
+        protein: { $sum: '$protein' },
+        fat: { $sum: '$fat' },
+        carbs: { $sum: '$carbs' },
+        ...micronutrientExpressions(key => ({ $sum: `$${key}` })),
+        items: { $sum: 1 },
+        days: { $addToSet: toLocalDateKey('$logTime') },
+      },
+    },
+    // Roll meal types up into one summary per bucket
+    {
+      $group: {
+        _id: '$_id.bucket',
+        totalCalories: { $sum: '$calories' },
+        totalProtein: { $sum: '$protein' },
+        totalFat: { $sum: '$fat' },
+        totalCarbs: { $sum: '$carbs' },
+        ...micronutrientExpressions(key => ({ $sum: `$${key}` })),
+        totalItems: { $sum: '$items' },
+        mealTypes: {
+          $push: {
+            k: '$_id.mealType',
+            v: {
+              calories: '$calories',
+              protein: '$protein',
+              fat: '$fat',
+              carbs: '$carbs',
+              items: '$items',
+            },
+          },
+        },
+        daySets: { $push: '$days' },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        date: '$_id',
+        totalCalories: 1,
+        totalProtein: 1,
+        totalFat: 1,
+        totalCarbs: 1,
+        totalMicronutrients: micronutrientExpressions(key => `$${key}`),
+        mealBreakdown: {
+          $mergeObjects: [
+            buildEmptySummary('').mealBreakdown,
+            { $arrayToObject: '$mealTypes' },
+          ],
+        },
+        totalItems: 1,
+        loggingDays: {
+          $size: {
+            $reduce: {
+              input: '$daySets',
+              initialValue: [],
+              in: { $setUnion: ['$$value', '$$this'] },
+            },
+          },
+        },
+      },
+    },
+    { $sort: { date: 1 } },
+  ]);
 };
 
 // Instance method to get nutrition info for this log entry
 foodLogSchema.methods.getNutritionInfo = async function () {
-  await this.populate(
-    'meal',
-    'name calories protein fat carbs quantity quantityUnit'
-  );
-  const meal = this.meal as any;
+  if (!this.nutrition) {
+    await this.populate(
+      'meal',
+      'name calories protein fat carbs quantity quantityUnit'
+    );
+  }
+  const meal = getLogNutrition(this);
   const multiplier = this.servings;
 
   return {
@@ -0,0 +1,22 @@
+// - smtp: deliver through an SMTP server (SMTP_* variables)
+// - file: write each message to MAIL_OUTBOX_DIR, for development
+// - memory: keep messages in the process, for tests
+export type MailTransportName = 'smtp' | 'file' | 'memory';
+
+export const MAIL_TRANSPORTS: MailTransportName[] = ['smtp', 'file', 'memory'];
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Message as handed to a transport, with the sender filled in
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>;
+}
@@ -1,4 +1,22 @@
-export interface Meal {
+import { MicronutrientKey, Micronutrients } from '../utils/nutrients';
+
+// Global meals have no user and are curated by admins
+export type MealVisibility = 'global' | 'own' | 'all';
+
+// Who is reading or changing meals, used to decide what they can access
+export interface MealViewer {
+  userId?: string; // Unset for anonymous callers
+  isAdmin: boolean;
+}
+
+export interface MealIngredient {
+  meal: string; // Ingredient Meal ID
+  servings: number; // Servings used by the whole recipe, derived from amount if given
+  amount?: number; // Alternative to servings, e.g. 200 (g)
+  quantityUnit?: string; // QuantityUnit ID of the amount
+}
+
+export interface Meal extends Micronutrients {
   id: string;
   name: string;
   protein: number;
@@ -7,27 +25,40 @@ export interface Meal {
   carbs?: number;
   quantity: number;
   quantityUnit: string; // QuantityUnit ID
+  density?: number; // Grams per millilitre, for volume <-> mass conversion
   tags: string[]; // Array of Tag IDs
   emoji?: string;
-  user?: string; // Optional User ID
+  user?: string; // Owner User ID, unset for global meals
+  isRecipe: boolean; // Nutrition is computed from ingredients when true
+  ingredients: MealIngredient[];
+  yield?: number; // Number of servings the recipe makes
+  isActive: boolean; // False once archived
+  source?: string; // Nutrition database the meal was imported from, e.g. 'usda'
+  sourceId?: string; // ID of the food in that database
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface CreateMealRequest {
+export interface CreateMealRequest extends Micronutrients {
   name: string;
-  protein: number;
-  calories: number;
+  protein: number; // Ignored for recipes
+  calories: number; // Ignored for recipes
   fat?: number;
   carbs?: number;
   quantity: number;
   quantityUnit: string;
+  density?: number;
   tags?: string[];
   emoji?: string;
   user?: string;
+  isRecipe?: boolean;
+  ingredients?: MealIngredient[]; // Required for recipes
+  yield?: number; // Required for recipes
+  source?: string; // Set by catalog imports
+  sourceId?: string;
 }
 
-export interface UpdateMealRequest {
+export interface UpdateMealRequest extends Micronutrients {
   name?: string;
   protein?: number;
   calories?: number;
@@ -35,11 +66,16 @@ export interface UpdateMealRequest {
   carbs?: number;
   quantity?: number;
   quantityUnit?: string;
+  density?: number;
   tags?: string[];
   emoji?: string;
+  isRecipe?: boolean;
+  ingredients?: MealIngredient[];
+  yield?: number;
+  isActive?: boolean; // Admins only: set to true to restore an archived meal
 }
 
-export interface MealResponse {
+export interface MealResponse extends Micronutrients {
   id: string;
   name: string;
   protein: number;
@@ -48,8 +84,20 @@ export interface MealResponse {
   carbs?: number;
   quantity: number;
   quantityUnit: string;
+  density?: number;
   tags: string[];
   emoji?: string;
+  isRecipe?: boolean;
+  yield?: number;
+  ingredients?: {
+    meal: string;
+    name?: string;
+    servings: number;
+    calories?: number; // Contribution to one serving of the recipe
+    protein?: number;
+    fat?: number;
+    carbs?: number;
+  }[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -64,7 +112,11 @@ export interface MealSearchParams {
   maxFat?: number;
   minCarbs?: number;
   maxCarbs?: number;
+  micronutrientRanges?: {
+    [key in MicronutrientKey]?: { min?: number; max?: number };
+  };
   tags?: string[];
+  visibility?: MealVisibility; // Defaults to 'all' (global + own)
   page?: number;
   limit?: number;
 }
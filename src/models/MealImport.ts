@@ -0,0 +1,48 @@
+import { Micronutrients } from '../utils/nutrients';
+
+// - usda: a FoodData Central JSON download (Foundation, SR Legacy, Survey or
+//   Branded foods), nutrition per 100 g
+// - json: an array of MealImportRecord objects
+// - csv: a header row with MealImportRecord field names, one food per row
+export type MealImportFormat = 'usda' | 'json' | 'csv';
+
+export const MEAL_IMPORT_FORMATS: MealImportFormat[] = ['usda', 'json', 'csv'];
+
+// One food of an import file, nutrition for `quantity` of `unit`
+export interface MealImportRecord extends Micronutrients {
+  name: string;
+  sourceId?: string; // ID in the source database, used to find the meal again
+  calories: number;
+  protein?: number;
+  fat?: number;
+  carbs?: number;
+  quantity?: number; // Defaults to 100
+  unit?: string; // Quantity unit short name, defaults to g
+  density?: number; // Grams per millilitre
+}
+
+export interface ImportMealsOptions {
+  format?: MealImportFormat; // Detected from the content when unset
+  source?: string; // Defaults to 'usda' for USDA files and 'import' otherwise
+  dryRun?: boolean; // Count what would change without saving anything
+  changedBy?: string; // User ID recorded in the meal history
+}
+
+export interface MealImportIssue {
+  index: number; // Position of the food in the file, starting at 1
+  name?: string;
+  sourceId?: string;
+  reason: string;
+}
+
+export interface ImportMealsResult {
+  source: string;
+  format: MealImportFormat;
+  dryRun: boolean;
+  total: number; // Foods in the file
+  inserted: number;
+  updated: number;
+  skipped: number; // Unchanged, duplicated or invalid foods
+  unitsCreated: string[]; // Short names of quantity units created
+  issues: MealImportIssue[]; // Foods that could not be imported (first 100)
+}
@@ -1,7 +1,21 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, SchemaDefinition } from 'mongoose';
+import {
+  MICRONUTRIENTS,
+  MICRONUTRIENT_KEYS,
+  Micronutrients,
+} from '../utils/nutrients';
+import { MealViewer, MealVisibility } from './Meal';
 
-// Interface for the Meal document
-export interface IMeal extends Document {
+// Interface for an ingredient of a recipe meal
+export interface IMealIngredient {
+  meal: mongoose.Types.ObjectId;
+  servings: number; // Servings of the ingredient meal used by the whole recipe
+  amount?: number; // Amount as entered, servings is derived from it
+  quantityUnit?: mongoose.Types.ObjectId;
+}
+
+// Interface for the Meal document, micronutrients are optional per serving
+export interface IMeal extends Document, Micronutrients {
   name: string;
   protein: number;
   calories: number;
@@ -9,13 +23,62 @@ export interface IMeal extends Document {
   carbs?: number;
   quantity: number;
   quantityUnit: mongoose.Types.ObjectId;
+  density?: number; // Grams per millilitre, for volume <-> mass conversion
   tags: mongoose.Types.ObjectId[];
   emoji?: string;
   user?: mongoose.Types.ObjectId;
+  isRecipe: boolean; // Nutrition is computed from ingredients when true
+  ingredients: IMealIngredient[];
+  yield?: number; // Number of servings the recipe makes
+  isActive: boolean; // Archived meals are hidden from listings and logging
+  source?: string; // Nutrition database the meal was imported from
+  sourceId?: string; // ID of the food in that database
   createdAt: Date;
   updatedAt: Date;
 }
 
+const mealIngredientSchema = new Schema<IMealIngredient>(
+  {
+    meal: {
+      type: Schema.Types.ObjectId,
+      ref: 'Meal',
+      required: [true, 'Ingredient meal is required'],
+    },
+    servings: {
+      type: Number,
+      required: [true, 'Ingredient servings is required'],
+      min: [0.01, 'Ingredient servings must be greater than 0'],
+      max: [1000, 'Ingredient servings cannot exceed 1000'],
+    },
+    amount: {
+      type: Number,
+      min: [0.01, 'Ingredient amount must be greater than 0'],
+      default: undefined,
+    },
+    quantityUnit: {
+      type: Schema.Types.ObjectId,
+      ref: 'QuantityUnit',
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
+
+// Optional micronutrient fields, bounded per serving
+const micronutrientFields: SchemaDefinition = {};
+Object.entries(MICRONUTRIENTS).forEach(([key, definition]) => {
+  micronutrientFields[key] = {
+    type: Number,
+    required: false,
+    min: [0, `${definition.label} content cannot be negative`],
+    max: [
+      definition.max,
+      `${definition.label} content cannot exceed ${definition.max}${definition.unit}`,
+    ],
+    default: undefined,
+  };
+});
+
 // Mongoose schema definition
 const mealSchema = new Schema<IMeal>(
   {
@@ -53,6 +116,7 @@ const mealSchema = new Schema<IMeal>(
       max: [1000, 'Carbohydrate content cannot exceed 1000g'],
       default: undefined,
     },
+    ...micronutrientFields,
     quantity: {
       type: Number,
       required: [true, 'Quantity is required'],
@@ -71,6 +135,13 @@ const mealSchema = new Schema<IMeal>(
       },
       index: true,
     },
+    density: {
+      type: Number,
+      required: false,
+      min: [0.01, 'Density must be at least 0.01 g/ml'],
+      max: [25, 'Density cannot exceed 25 g/ml'],
+      default: undefined,
+    },
     tags: {
       type: [Schema.Types.ObjectId],
       ref: 'Tag',
@@ -112,6 +183,47 @@ const mealSchema = new Schema<IMeal>(
         message: 'User must be a valid User ID',
       },
     },
+    isRecipe: {
+      type: Boolean,
+      default: false,
+      index: true,
+    },
+    ingredients: {
+      type: [mealIngredientSchema],
+      default: [],
+      validate: {
+        validator: function (ingredients: IMealIngredient[]) {
+          return ingredients.length <= 50;
+        },
+        message: 'A recipe cannot have more than 50 ingredients',
+      },
+    },
+    yield: {
+      type: Number,
+      required: false,
+      min: [0.1, 'Recipe yield must be at least 0.1 servings'],
+      max: [1000, 'Recipe yield cannot exceed 1000 servings'],
+      default: undefined,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    source: {
+      type: String,
+      required: false,
+      trim: true,
+      maxlength: [50, 'Source cannot exceed 50 characters'],
+      default: undefined,
+    },
+    sourceId: {
+      type: String,
+      required: false,
+      trim: true,
+      maxlength: [100, 'Source ID cannot exceed 100 characters'],
+      default: undefined,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -129,6 +241,8 @@ mealSchema.index({ quantity: 1 }); // Index for quantity searches
 mealSchema.index({ quantityUnit: 1 }); // Index for quantity unit searches
 mealSchema.index({ tags: 1 }); // Index for tag searches
 mealSchema.index({ user: 1 }); // Index for user searches
+mealSchema.index({ 'ingredients.meal': 1 }); // Index for finding recipes using a meal
+mealSchema.index({ source: 1, sourceId: 1 }, { sparse: true }); // Index for catalog imports
 mealSchema.index({ name: 'text' }); // Text index for full-text search
 
 // Ensure virtual fields are serialized
@@ -198,9 +312,14 @@ interface IMealModel extends mongoose.Model<IMeal> {
     page?: number,
     limit?: number
   ): Promise<IMeal[]>;
-  findByTags(tags: string[], page?: number, limit?: number): Promise<IMeal[]>;
+  findByTags(
+    tags: string[],
+    page?: number,
+    limit?: number,
+    filter?: any
+  ): Promise<IMeal[]>;
   getAllTags(): Promise<string[]>;
-  getMealStats(): Promise<any>;
+  getMealStats(filter?: any): Promise<any>;
 }
 
 // Define instance methods interface
@@ -291,10 +410,12 @@ mealSchema.statics.findByCarbsRange = function (
 mealSchema.statics.findByTags = function (
   tags: string[],
   page: number = 1,
-  limit: number = 10
+  limit: number = 10,
+  filter: any = {}
 ) {
   const skip = (page - 1) * limit;
   return this.find({
+    ...filter,
     tags: { $in: tags },
   })
     .populate('tags', 'name category color')
@@ -309,8 +430,9 @@ mealSchema.statics.getAllTags = function () {
 };
 
 // Static method to get meal statistics
-mealSchema.statics.getMealStats = function () {
+mealSchema.statics.getMealStats = function (filter: any = {}) {
   return this.aggregate([
+    { $match: filter },
     {
       $group: {
         _id: null,
@@ -349,17 +471,83 @@ mealSchema.methods.getMealInfo = function () {
   if (this.carbs !== undefined) {
     info.carbs = this.carbs;
   }
+  MICRONUTRIENT_KEYS.forEach(key => {
+    if (this[key] !== undefined) {
+      info[key] = this[key];
+    }
+  });
   if (this.emoji !== undefined) {
     info.emoji = this.emoji;
   }
+  if (this.density !== undefined) {
+    info.density = this.density;
+  }
   if (this.user !== undefined) {
     info.user = this.user;
   }
 
+  // Recipes expose what each ingredient contributes to one serving. Expects
+  // ingredients.meal to be populated, otherwise only IDs are returned.
+  if (this.isRecipe) {
+    const servingsYield = this.yield || 1;
+    info.isRecipe = true;
+    info.yield = servingsYield;
+    info.ingredients = (this.ingredients || []).map((ingredient: any) => {
+      const meal = ingredient.meal;
+      if (!meal || meal.calories === undefined) {
+        return { meal, servings: ingredient.servings };
+      }
+
+      const perServing = (value?: number) =>
+        Math.round(
+          (((value || 0) * ingredient.servings) / servingsYield) * 100
+        ) / 100;
+      return {
+        meal: meal._id,
+        name: meal.name,
+        servings: ingredient.servings,
+        calories: perServing(meal.calories),
+        protein: perServing(meal.protein),
+        fat: perServing(meal.fat),
+        carbs: perServing(meal.carbs),
+      };
+    });
+  }
+
   return info;
 };
 
 // Create and export the model
+// Filter for the meals a viewer can see: global meals (no user) plus their
+// own. Admins see every meal unless they narrow it down with a visibility.
+// Without a viewer (internal calls) nothing is filtered out. Archived meals
+// are left out unless requested, e.g. when fetching a meal by ID.
+export const buildMealVisibilityFilter = (
+  viewer?: MealViewer,
+  visibility: MealVisibility = 'all',
+  includeArchived: boolean = false
+): any => {
+  const ownerId = viewer?.userId
+    ? new mongoose.Types.ObjectId(viewer.userId)
+    : undefined;
+  const filter: any = includeArchived ? {} : { isActive: { $ne: false } };
+
+  switch (visibility) {
+    case 'global':
+      return { ...filter, user: null };
+    case 'own':
+      // Anonymous callers own nothing
+      return ownerId ? { ...filter, user: ownerId } : { _id: null };
+    default:
+      if (!viewer || viewer.isAdmin) {
+        return filter;
+      }
+      return ownerId
+        ? { ...filter, $or: [{ user: null }, { user: ownerId }] }
+        : { ...filter, user: null };
+  }
+};
+
 const Meal = mongoose.model<IMeal, IMealModel>('Meal', mealSchema);
 
 export default Meal;
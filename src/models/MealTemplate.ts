@@ -0,0 +1,39 @@
+export interface MealTemplateItem {
+  meal: string; // Reference to Meal ID
+  servings: number;
+  notes?: string;
+}
+
+export interface MealTemplate {
+  _id: string;
+  user: string;
+  name: string;
+  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack'; // Default slot when logged
+  items: MealTemplateItem[];
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateMealTemplateRequest {
+  user: string;
+  name: string;
+  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  items: MealTemplateItem[];
+  notes?: string;
+}
+
+export interface UpdateMealTemplateRequest {
+  name?: string;
+  mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  items?: MealTemplateItem[];
+  notes?: string;
+}
+
+export interface LogMealTemplateRequest {
+  mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack'; // Overrides the template's mealType
+  logDate?: number; // Date for which the food is being logged (epoch timestamp)
+  loggedAt?: number; // When the log entry was created (epoch timestamp)
+  notes?: string; // Overrides the template's notes
+  timezone?: string; // Overrides the user's timezone for logDate normalization
+}
@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IMealTemplateItem {
+  meal: mongoose.Types.ObjectId;
+  servings: number;
+  notes?: string;
+}
+
+// Interface for the MealTemplate document
+export interface IMealTemplate extends Document {
+  user: mongoose.Types.ObjectId;
+  name: string;
+  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  items: IMealTemplateItem[];
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const mealTemplateItemSchema = new Schema<IMealTemplateItem>(
+  {
+    meal: {
+      type: Schema.Types.ObjectId,
+      ref: 'Meal',
+      required: [true, 'Meal is required'],
+    },
+    servings: {
+      type: Number,
+      required: [true, 'Servings is required'],
+      min: [0.1, 'Servings must be at least 0.1'],
+      max: [100, 'Servings cannot exceed 100'],
+    },
+    notes: {
+      type: String,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+      trim: true,
+    },
+  },
+  { _id: false }
+);
+
+// Mongoose schema definition
+const mealTemplateSchema = new Schema<IMealTemplate>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Template name is required'],
+      trim: true,
+      minlength: [2, 'Template name must be at least 2 characters long'],
+      maxlength: [100, 'Template name cannot exceed 100 characters'],
+    },
+    mealType: {
+      type: String,
+      required: [true, 'Meal type is required'],
+      enum: {
+        values: ['breakfast', 'lunch', 'dinner', 'snack'],
+        message: 'Meal type must be one of: breakfast, lunch, dinner, snack',
+      },
+    },
+    items: {
+      type: [mealTemplateItemSchema],
+      validate: {
+        // Templates are logged through the bulk path, which caps items at 20
+        validator: function (items: IMealTemplateItem[]) {
+          return items.length >= 1 && items.length <= 20;
+        },
+        message: 'A template must have between 1 and 20 items',
+      },
+    },
+    notes: {
+      type: String,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+      trim: true,
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+    versionKey: false, // Disable __v field
+  }
+);
+
+// Template names are unique per user
+mealTemplateSchema.index({ user: 1, name: 1 }, { unique: true });
+
+const MealTemplate = mongoose.model<IMealTemplate>(
+  'MealTemplate',
+  mealTemplateSchema
+);
+
+export default MealTemplate;
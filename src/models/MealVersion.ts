@@ -0,0 +1,31 @@
+export type MealChangeType =
+  | 'create'
+  | 'update'
+  | 'revert'
+  | 'recompute' // Recipe nutrition recomputed after an ingredient changed
+  | 'archive'
+  | 'delete';
+
+export interface MealFieldChange {
+  field: string;
+  from?: any; // Unset when the field had no value
+  to?: any;
+}
+
+export interface MealVersion {
+  _id: string;
+  meal: string; // Meal ID
+  version: number; // Starts at 1 and increases with every change
+  changeType: MealChangeType;
+  changedBy?: string; // User ID, unset for system changes
+  changes: MealFieldChange[];
+  snapshot: { [field: string]: any }; // Tracked fields after the change
+  revertedFrom?: number; // Version restored by a revert
+  createdAt: Date;
+}
+
+export interface RecordMealVersionRequest {
+  changeType: MealChangeType;
+  changedBy?: string;
+  revertedFrom?: number;
+}
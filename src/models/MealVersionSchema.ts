@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { MealChangeType, MealFieldChange } from './MealVersion';
+
+// Interface for the MealVersion document
+export interface IMealVersion extends Document {
+  meal: mongoose.Types.ObjectId;
+  version: number;
+  changeType: MealChangeType;
+  changedBy?: mongoose.Types.ObjectId;
+  changes: MealFieldChange[];
+  snapshot: { [field: string]: any };
+  revertedFrom?: number;
+  createdAt: Date;
+}
+
+const mealFieldChangeSchema = new Schema<MealFieldChange>(
+  {
+    field: { type: String, required: true },
+    from: { type: Schema.Types.Mixed },
+    to: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+// Mongoose schema definition
+const mealVersionSchema = new Schema<IMealVersion>(
+  {
+    meal: {
+      type: Schema.Types.ObjectId,
+      ref: 'Meal',
+      required: [true, 'Meal is required'],
+    },
+    version: {
+      type: Number,
+      required: [true, 'Version is required'],
+      min: [1, 'Version must be at least 1'],
+    },
+    changeType: {
+      type: String,
+      required: [true, 'Change type is required'],
+      enum: {
+        values: [
+          'create',
+          'update',
+          'revert',
+          'recompute',
+          'archive',
+          'delete',
+        ],
+        message:
+          'Change type must be one of: create, update, revert, recompute, archive, delete',
+      },
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: undefined,
+    },
+    changes: {
+      type: [mealFieldChangeSchema],
+      default: [],
+    },
+    snapshot: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Snapshot is required'],
+    },
+    revertedFrom: {
+      type: Number,
+      default: undefined,
+    },
+  },
+  {
+    // Versions are never edited, only appended
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false, // Disable __v field
+    minimize: false, // Keep empty snapshots/changes
+  }
+);
+
+// One document per meal version, listed newest first
+mealVersionSchema.index({ meal: 1, version: -1 }, { unique: true });
+
+const MealVersion = mongoose.model<IMealVersion>(
+  'MealVersion',
+  mealVersionSchema
+);
+
+export default MealVersion;
@@ -0,0 +1,67 @@
+export interface NutritionTargets {
+  calories: number;
+  protein?: number; // grams
+  fat?: number; // grams
+  carbs?: number; // grams
+}
+
+export interface WeekdayNutritionTargets extends NutritionTargets {
+  weekday: number; // 0 (Sunday) - 6 (Saturday)
+}
+
+export interface MealTypeNutritionTargets {
+  breakfast?: NutritionTargets;
+  lunch?: NutritionTargets;
+  dinner?: NutritionTargets;
+  snack?: NutritionTargets;
+}
+
+export interface NutritionGoal {
+  _id: string;
+  user: string;
+  effectiveFrom: string; // Local calendar date (YYYY-MM-DD) the goal starts applying
+  targets: NutritionTargets;
+  weekdayTargets: WeekdayNutritionTargets[]; // Overrides for specific weekdays
+  mealTypeTargets?: MealTypeNutritionTargets;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateNutritionGoalRequest {
+  user: string;
+  effectiveFrom?: string; // Defaults to today in the user's timezone
+  targets: NutritionTargets;
+  weekdayTargets?: WeekdayNutritionTargets[];
+  mealTypeTargets?: MealTypeNutritionTargets;
+}
+
+export interface UpdateNutritionGoalRequest {
+  effectiveFrom?: string;
+  targets?: NutritionTargets;
+  weekdayTargets?: WeekdayNutritionTargets[];
+  mealTypeTargets?: MealTypeNutritionTargets;
+}
+
+export interface MacroAdherence {
+  target: number;
+  actual: number;
+  remaining: number; // Never negative, see status for overshoot
+  percentOfGoal: number;
+  status: 'under' | 'over';
+}
+
+export interface MacroAdherenceSet {
+  calories?: MacroAdherence;
+  protein?: MacroAdherence;
+  fat?: MacroAdherence;
+  carbs?: MacroAdherence;
+}
+
+export interface NutritionAdherence extends MacroAdherenceSet {
+  mealBreakdown: {
+    breakfast?: MacroAdherenceSet;
+    lunch?: MacroAdherenceSet;
+    dinner?: MacroAdherenceSet;
+    snack?: MacroAdherenceSet;
+  };
+}
@@ -0,0 +1,131 @@
+import mongoose, { Document, Schema, SchemaDefinition } from 'mongoose';
+import { TimezoneUtils } from '../utils/timezone';
+
+export interface INutritionTargets {
+  calories: number;
+  protein?: number;
+  fat?: number;
+  carbs?: number;
+}
+
+export interface IWeekdayNutritionTargets extends INutritionTargets {
+  weekday: number;
+}
+
+// Interface for the NutritionGoal document
+export interface INutritionGoal extends Document {
+  user: mongoose.Types.ObjectId;
+  effectiveFrom: string; // Local calendar date (YYYY-MM-DD)
+  targets: INutritionTargets;
+  weekdayTargets: IWeekdayNutritionTargets[];
+  mealTypeTargets?: {
+    breakfast?: INutritionTargets;
+    lunch?: INutritionTargets;
+    dinner?: INutritionTargets;
+    snack?: INutritionTargets;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const targetFields: SchemaDefinition<INutritionTargets> = {
+  calories: {
+    type: Number,
+    required: [true, 'Calorie target is required'],
+    min: [1, 'Calorie target must be at least 1'],
+    max: [20000, 'Calorie target cannot exceed 20000'],
+  },
+  protein: {
+    type: Number,
+    min: [1, 'Protein target must be at least 1g'],
+    max: [2000, 'Protein target cannot exceed 2000g'],
+    default: undefined,
+  },
+  fat: {
+    type: Number,
+    min: [1, 'Fat target must be at least 1g'],
+    max: [2000, 'Fat target cannot exceed 2000g'],
+    default: undefined,
+  },
+  carbs: {
+    type: Number,
+    min: [1, 'Carbohydrate target must be at least 1g'],
+    max: [2000, 'Carbohydrate target cannot exceed 2000g'],
+    default: undefined,
+  },
+};
+
+const nutritionTargetsSchema = new Schema<INutritionTargets>(targetFields, {
+  _id: false,
+});
+
+const weekdayTargetsSchema = new Schema<IWeekdayNutritionTargets>(
+  {
+    weekday: {
+      type: Number,
+      required: [true, 'Weekday is required'],
+      min: [0, 'Weekday must be between 0 (Sunday) and 6 (Saturday)'],
+      max: [6, 'Weekday must be between 0 (Sunday) and 6 (Saturday)'],
+    },
+    ...targetFields,
+  },
+  { _id: false }
+);
+
+// Mongoose schema definition
+const nutritionGoalSchema = new Schema<INutritionGoal>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+      index: true,
+    },
+    effectiveFrom: {
+      type: String,
+      required: [true, 'Effective from date is required'],
+      validate: {
+        validator: function (dateKey: string) {
+          return TimezoneUtils.isValidDateKey(dateKey);
+        },
+        message:
+          'Effective from date must be a valid date in YYYY-MM-DD format',
+      },
+    },
+    targets: {
+      type: nutritionTargetsSchema,
+      required: [true, 'Targets are required'],
+    },
+    weekdayTargets: {
+      type: [weekdayTargetsSchema],
+      default: [],
+      validate: {
+        validator: function (weekdayTargets: IWeekdayNutritionTargets[]) {
+          const weekdays = weekdayTargets.map(target => target.weekday);
+          return new Set(weekdays).size === weekdays.length;
+        },
+        message: 'Each weekday can only have one set of targets',
+      },
+    },
+    mealTypeTargets: {
+      breakfast: { type: nutritionTargetsSchema, default: undefined },
+      lunch: { type: nutritionTargetsSchema, default: undefined },
+      dinner: { type: nutritionTargetsSchema, default: undefined },
+      snack: { type: nutritionTargetsSchema, default: undefined },
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+    versionKey: false, // Disable __v field
+  }
+);
+
+// One goal per user per effective date; lookups walk back from a given date
+nutritionGoalSchema.index({ user: 1, effectiveFrom: -1 }, { unique: true });
+
+const NutritionGoal = mongoose.model<INutritionGoal>(
+  'NutritionGoal',
+  nutritionGoalSchema
+);
+
+export default NutritionGoal;
@@ -1,9 +1,14 @@
+import { UnitDimension } from '../utils/units';
+
 export interface QuantityUnit {
   _id?: string;
   name: string;
   shortName: string;
   defaultValue: number;
   incrementValue: number;
+  dimension?: UnitDimension;
+  baseFactor?: number; // Size of one unit in the base unit (g, ml or piece)
+  isActive?: boolean; // False once archived
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -13,6 +18,8 @@ export interface CreateQuantityUnitRequest {
   shortName: string;
   defaultValue: number;
   incrementValue: number;
+  dimension?: UnitDimension; // Inferred for well-known short names
+  baseFactor?: number;
 }
 
 export interface UpdateQuantityUnitRequest {
@@ -20,6 +27,9 @@ export interface UpdateQuantityUnitRequest {
   shortName?: string;
   defaultValue?: number;
   incrementValue?: number;
+  dimension?: UnitDimension;
+  baseFactor?: number;
+  isActive?: boolean; // Set to true to restore an archived unit
 }
 
 export interface QuantityUnitSearchParams {
@@ -28,3 +38,21 @@ export interface QuantityUnitSearchParams {
   page?: number;
   limit?: number;
 }
+
+export interface QuantityUnitConversion {
+  value: number;
+  result: number;
+  from: {
+    _id: string;
+    name: string;
+    shortName: string;
+    dimension?: UnitDimension;
+  };
+  to: {
+    _id: string;
+    name: string;
+    shortName: string;
+    dimension?: UnitDimension;
+  };
+  density?: number; // Grams per millilitre, when volume and mass were bridged
+}
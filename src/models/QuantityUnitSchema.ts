@@ -1,10 +1,18 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import {
+  UNIT_DIMENSIONS,
+  UnitConversionUtils,
+  UnitDimension,
+} from '../utils/units';
 
 export interface IQuantityUnit extends Document {
   name: string;
   shortName: string;
   defaultValue: number;
   incrementValue: number;
+  dimension?: UnitDimension;
+  baseFactor?: number; // Size of one unit in the base unit (g, ml or piece)
+  isActive: boolean; // Archived units are no longer listed
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,6 +43,23 @@ const quantityUnitSchema = new Schema<IQuantityUnit>(
       required: [true, 'Increment value is required'],
       min: [0.1, 'Increment value must be at least 0.1'],
     },
+    dimension: {
+      type: String,
+      enum: {
+        values: UNIT_DIMENSIONS,
+        message: 'Dimension must be one of: mass, volume, count',
+      },
+      default: undefined,
+    },
+    baseFactor: {
+      type: Number,
+      min: [0.000001, 'Base factor must be greater than 0'],
+      default: undefined,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
   },
   {
     timestamps: true,
@@ -47,6 +72,24 @@ const quantityUnitSchema = new Schema<IQuantityUnit>(
 quantityUnitSchema.index({ name: 1 });
 quantityUnitSchema.index({ shortName: 1 });
 
+// Fill in the dimension and base factor of well-known units (g, ml, cup...)
+quantityUnitSchema.pre('validate', function (next) {
+  if (!this.dimension && !this.baseFactor) {
+    const known = UnitConversionUtils.getKnownConversion(this.shortName);
+    if (known) {
+      this.dimension = known.dimension;
+      this.baseFactor = known.factor;
+    }
+  }
+  if (!!this.dimension !== !!this.baseFactor) {
+    this.invalidate(
+      'baseFactor',
+      'Dimension and base factor must be set together'
+    );
+  }
+  next();
+});
+
 // Static method to search units
 quantityUnitSchema.statics.searchUnits = function (query: any) {
   return this.find(query).sort({ name: 1 });
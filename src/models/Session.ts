@@ -0,0 +1,39 @@
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout-all'
+  | 'reuse' // A rotated refresh token was presented again
+  | 'revoked' // Revoked from the session list
+  | 'password-reset'; // The password was reset
+
+// Details of the client a session was started from
+export interface SessionClient {
+  deviceLabel?: string; // Name chosen by the client, e.g. "Pixel 8"
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface Session extends SessionClient {
+  id: string;
+  user: string; // User ID
+  expiresAt: Date; // Moves forward every time the refresh token is rotated
+  lastUsedAt: Date; // Last request or refresh
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Active session as listed to its user
+export interface ActiveSession extends SessionClient {
+  id: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean; // Whether the listing request was made from this session
+}
+
+// Tokens handed to the client when a session starts or is refreshed
+export interface SessionTokens {
+  token: string; // Short-lived access token (JWT)
+  refreshToken: string; // Opaque, single-use refresh token
+}
@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { SessionRevokeReason } from './Session';
+
+// Refresh tokens remembered per session to recognise reuse of rotated ones
+export const ROTATED_TOKEN_HISTORY = 50;
+
+// Interface for the Session document. Each session is one login on one
+// device and holds the family of refresh tokens rotated from it.
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenHash: string; // SHA-256 of the current refresh token
+  rotatedTokenHashes: string[]; // Hashes of refresh tokens already used
+  deviceLabel?: string;
+  userAgent?: string;
+  ip?: string;
+  expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Mongoose schema definition
+const sessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      select: false, // Never return token hashes in queries by default
+    },
+    rotatedTokenHashes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    deviceLabel: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Device label cannot exceed 100 characters'],
+    },
+    userAgent: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'User agent cannot exceed 500 characters'],
+    },
+    ip: {
+      type: String,
+      trim: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+    lastUsedAt: {
+      type: Date,
+      required: true,
+      default: () => new Date(),
+    },
+    revokedAt: {
+      type: Date,
+      default: undefined,
+    },
+    revokedReason: {
+      type: String,
+      enum: {
+        values: ['logout', 'logout-all', 'reuse', 'revoked', 'password-reset'],
+        message:
+          'Revoke reason must be one of: logout, logout-all, reuse, revoked, password-reset',
+      },
+      default: undefined,
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+    versionKey: false, // Disable __v field
+  }
+);
+
+// Indexes for better query performance
+sessionSchema.index({ user: 1, revokedAt: 1 }); // For a user's active sessions
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Expired sessions are removed by MongoDB
+
+const Session = mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
@@ -1,7 +1,37 @@
+// - user: every account, access to its own data
+// - coach: may also look up other users
+// - catalog-editor: may also import and maintain the global meal catalog
+// - admin: everything, including granting roles
+export type UserRole = 'user' | 'coach' | 'catalog-editor' | 'admin';
+
+export const USER_ROLES: UserRole[] = [
+  'user',
+  'coach',
+  'catalog-editor',
+  'admin',
+];
+
+export type Permission =
+  | 'users:read' // List, search and look up users
+  | 'users:manage' // Create, update and delete any user
+  | 'roles:manage' // Grant and revoke roles
+  | 'catalog:manage'; // Import meals into the global catalog, maintain tags and units
+
+// Permissions of each role. A user has the permissions of all their roles.
+export const ROLE_PERMISSIONS: { [role in UserRole]: Permission[] } = {
+  user: [],
+  coach: ['users:read'],
+  'catalog-editor': ['catalog:manage'],
+  admin: ['users:read', 'users:manage', 'roles:manage', 'catalog:manage'],
+};
+
 export interface User {
   id: string;
   name: string;
   email: string;
+  timezone: string; // IANA timezone, e.g. 'America/New_York'
+  roles: UserRole[];
+  emailVerified: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -21,6 +51,11 @@ export interface RegisterRequest {
   name: string;
   email: string;
   password: string;
+  timezone?: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
 }
 
 export interface ChangePasswordRequest {
@@ -31,18 +66,26 @@ export interface ChangePasswordRequest {
 export interface UpdateUserRequest {
   name?: string;
   email?: string;
+  timezone?: string;
 }
 
 export interface UserResponse {
   id: string;
   name: string;
   email: string;
+  timezone: string;
+  roles: UserRole[];
+  emailVerified: boolean;
   initials: string;
   displayName: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface UserRoleRequest {
+  role: UserRole;
+}
+
 export interface UserStats {
   totalBites: number;
   totalCalories: number;
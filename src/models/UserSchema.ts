@@ -1,10 +1,19 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { DEFAULT_TIMEZONE, TimezoneUtils } from '../utils/timezone';
+import { USER_ROLES, UserRole } from './User';
 
 // Interface for the User document
 export interface IUser extends Document {
   name: string;
   email: string;
   password: string;
+  timezone: string; // IANA timezone used for day boundaries
+  roles: UserRole[];
+  emailVerified: boolean;
+  emailVerificationTokenHash?: string; // SHA-256 of the pending token
+  emailVerificationExpiresAt?: Date;
+  passwordResetTokenHash?: string; // SHA-256 of the pending reset token
+  passwordResetExpiresAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -37,6 +46,51 @@ const userSchema = new Schema<IUser>(
       minlength: [6, 'Password must be at least 6 characters long'],
       select: false, // Don't include password in queries by default
     },
+    timezone: {
+      type: String,
+      trim: true,
+      default: DEFAULT_TIMEZONE,
+      validate: {
+        validator: function (timezone: string) {
+          return TimezoneUtils.isValidTimezone(timezone);
+        },
+        message: 'Timezone must be a valid IANA timezone (e.g. Europe/London)',
+      },
+    },
+    roles: {
+      type: [
+        {
+          type: String,
+          enum: {
+            values: USER_ROLES,
+            message: `Role must be one of: ${USER_ROLES.join(', ')}`,
+          },
+        },
+      ],
+      default: ['user'],
+    },
+    emailVerified: {
+      type: Boolean,
+      // Self-registered accounts start unverified, accounts created by
+      // admins or before verification existed count as verified
+      default: true,
+    },
+    emailVerificationTokenHash: {
+      type: String,
+      select: false,
+    },
+    emailVerificationExpiresAt: {
+      type: Date,
+      select: false,
+    },
+    passwordResetTokenHash: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpiresAt: {
+      type: Date,
+      select: false,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -47,6 +101,9 @@ const userSchema = new Schema<IUser>(
 // Indexes for better query performance
 userSchema.index({ email: 1 }); // Unique index for email
 userSchema.index({ name: 1 }); // Index for name searches
+userSchema.index({ roles: 1 }); // For finding admins and other role holders
+userSchema.index({ emailVerificationTokenHash: 1 }, { sparse: true }); // For verifying emails
+userSchema.index({ passwordResetTokenHash: 1 }, { sparse: true }); // For password resets
 
 // Virtual for user's initials
 userSchema.virtual('initials').get(function () {
@@ -70,16 +127,26 @@ userSchema.set('toJSON', {
   },
 });
 
+// Hash a password for storage. Used by the middleware below, and for
+// updates that set a password without saving a document.
+export const hashPassword = async (password: string): Promise<string> => {
+  const bcrypt = require('bcryptjs');
+  return bcrypt.hash(password, 12);
+};
+
 // Pre-save middleware for email normalization and password hashing
 userSchema.pre('save', async function (next) {
   try {
     // Ensure email is lowercase
     this.email = this.email.toLowerCase().trim();
 
-    // Hash password if it's modified
+    // Hash password if it's modified, and invalidate any pending reset link
     if (this.isModified('password')) {
-      const bcrypt = require('bcryptjs');
-      this.password = await bcrypt.hash(this.password, 12);
+      this.password = await hashPassword(this.password);
+      this.set({
+        passwordResetTokenHash: undefined,
+        passwordResetExpiresAt: undefined,
+      });
     }
 
     next();
@@ -92,11 +159,9 @@ userSchema.pre('save', async function (next) {
 // Pre-insertMany middleware to hash passwords when using insertMany
 userSchema.pre('insertMany', async function (next, docs) {
   try {
-    const bcrypt = require('bcryptjs');
-
     for (const doc of docs) {
       if (doc.password) {
-        doc.password = await bcrypt.hash(doc.password, 12);
+        doc.password = await hashPassword(doc.password);
       }
       // Also normalize email
       if (doc.email) {
@@ -148,6 +213,7 @@ userSchema.methods.getUserInfo = function () {
     id: this._id,
     name: this.name,
     email: this.email,
+    timezone: this.timezone,
     initials: this.initials,
     displayName: this.displayName,
     createdAt: this.createdAt,
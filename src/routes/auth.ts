@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, optionalAuth } from '../middleware/auth';
 
 const router = Router();
 const authController = new AuthController();
@@ -11,11 +11,26 @@ router.post('/register', authController.register);
 // POST /api/v1/auth/login - Login user
 router.post('/login', authController.login);
 
+// POST /api/v1/auth/verify-email - Verify email address with emailed token
+router.post('/verify-email', authController.verifyEmail);
+
+// POST /api/v1/auth/resend-verification - Email a new verification link
+router.post('/resend-verification', authController.resendVerification);
+
 // POST /api/v1/auth/refresh - Refresh access token
 router.post('/refresh', authController.refreshToken);
 
-// POST /api/v1/auth/logout - Logout user
-router.post('/logout', authController.logout);
+// POST /api/v1/auth/logout - Logout user (revokes the session)
+router.post('/logout', optionalAuth, authController.logout);
+
+// POST /api/v1/auth/logout-all - Revoke every session of the current user
+router.post('/logout-all', authenticate, authController.logoutAll);
+
+// GET /api/v1/auth/sessions - List the current user's active sessions
+router.get('/sessions', authenticate, authController.getSessions);
+
+// DELETE /api/v1/auth/sessions/:id - Revoke one of the current user's sessions
+router.delete('/sessions/:id', authenticate, authController.revokeSession);
 
 // GET /api/v1/auth/me - Get current user profile
 router.get('/me', authenticate, authController.getMe);
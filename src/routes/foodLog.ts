@@ -1,9 +1,17 @@
 import { Router } from 'express';
 import { FoodLogController } from '../controllers/foodLogController';
+import { authenticate, requireSelfOrAdmin } from '../middleware/auth';
+import { validateTimezone } from '../middleware/timezone';
 
 const router = Router();
 const foodLogController = new FoodLogController();
 
+// All food log routes require an authenticated user
+router.use(authenticate);
+
+// Optional ?timezone= (or body timezone) overrides the user's stored timezone
+router.use(validateTimezone);
+
 // Basic CRUD operations
 // POST /api/v1/food-logs - Create new food log entry
 router.post('/', foodLogController.createFoodLog);
@@ -11,21 +19,51 @@ router.post('/', foodLogController.createFoodLog);
 // POST /api/v1/food-logs/bulk - Create multiple food log entries at once
 router.post('/bulk', foodLogController.createBulkFoodLog);
 
+// POST /api/v1/food-logs/copy - Copy a day's logs (or one meal type) to other dates
+router.post('/copy', foodLogController.copyFoodLogs);
+
+// POST /api/v1/food-logs/import - Import logs from CSV (?dryRun=true to only check)
+router.post('/import', foodLogController.importFoodLogs);
+
+// GET /api/v1/food-logs/import/presets - Get CSV import presets
+router.get('/import/presets', foodLogController.getImportPresets);
+
 // GET /api/v1/food-logs/:id - Get food log by ID
 router.get('/:id', foodLogController.getFoodLogById);
 
 // PUT /api/v1/food-logs/:id - Update food log
 router.put('/:id', foodLogController.updateFoodLog);
 
-// DELETE /api/v1/food-logs/:id - Delete food log
+// DELETE /api/v1/food-logs/:id - Move food log to the trash
 router.delete('/:id', foodLogController.deleteFoodLog);
 
+// POST /api/v1/food-logs/:id/restore - Restore food log from the trash
+router.post('/:id/restore', foodLogController.restoreFoodLog);
+
+// POST /api/v1/food-logs/:id/resync - Refresh nutrition snapshot from the current meal
+router.post('/:id/resync', foodLogController.resyncFoodLogNutrition);
+
 // User-specific operations
 // GET /api/v1/food-logs/user/:userId - Get all food logs for a user
-router.get('/user/:userId', foodLogController.getFoodLogsByUser);
+router.get(
+  '/user/:userId',
+  requireSelfOrAdmin(),
+  foodLogController.getFoodLogsByUser
+);
 
 // GET /api/v1/food-logs/recent/:userId - Get recent food logs for a user
-router.get('/recent/:userId', foodLogController.getRecentFoodLogs);
+router.get(
+  '/recent/:userId',
+  requireSelfOrAdmin(),
+  foodLogController.getRecentFoodLogs
+);
+
+// GET /api/v1/food-logs/trash/:userId - Get deleted food logs for a user
+router.get(
+  '/trash/:userId',
+  requireSelfOrAdmin(),
+  foodLogController.getDeletedFoodLogs
+);
 
 // Search and filter operations
 // GET /api/v1/food-logs/search - Search food logs with filters
@@ -34,6 +72,7 @@ router.get('/search', foodLogController.searchFoodLogs);
 // GET /api/v1/food-logs/meal-type/:userId/:mealType - Get food logs by meal type
 router.get(
   '/meal-type/:userId/:mealType',
+  requireSelfOrAdmin(),
   foodLogController.getFoodLogsByMealType
 );
 
@@ -41,27 +80,53 @@ router.get(
 // GET /api/v1/food-logs/daily-nutrition/:userId - Get daily nutrition summary
 router.get(
   '/daily-nutrition/:userId',
+  requireSelfOrAdmin(),
   foodLogController.getDailyNutritionSummary
 );
 
 // GET /api/v1/food-logs/nutrition-range/:userId - Get nutrition summary for date range
 router.get(
   '/nutrition-range/:userId',
+  requireSelfOrAdmin(),
   foodLogController.getNutritionSummaryRange
 );
 
 // GET /api/v1/food-logs/weekly-trend/:userId - Get weekly nutrition trend
-router.get('/weekly-trend/:userId', foodLogController.getWeeklyNutritionTrend);
+router.get(
+  '/weekly-trend/:userId',
+  requireSelfOrAdmin(),
+  foodLogController.getWeeklyNutritionTrend
+);
 
 // GET /api/v1/food-logs/monthly-trend/:userId - Get monthly nutrition trend
 router.get(
   '/monthly-trend/:userId',
+  requireSelfOrAdmin(),
   foodLogController.getMonthlyNutritionTrend
 );
 
+// Export
+// GET /api/v1/food-logs/export/:userId - Stream a user's food logs as CSV or JSON
+router.get(
+  '/export/:userId',
+  requireSelfOrAdmin(),
+  foodLogController.exportFoodLogs
+);
+
 // Statistics
 // GET /api/v1/food-logs/stats/:userId - Get food log statistics
-router.get('/stats/:userId', foodLogController.getFoodLogStats);
+router.get(
+  '/stats/:userId',
+  requireSelfOrAdmin(),
+  foodLogController.getFoodLogStats
+);
+
+// GET /api/v1/food-logs/streaks/:userId - Get logging streaks and weekly consistency
+router.get(
+  '/streaks/:userId',
+  requireSelfOrAdmin(),
+  foodLogController.getLoggingStreaks
+);
 
 // Utility endpoints
 // GET /api/v1/food-logs/meal-types - Get available meal types
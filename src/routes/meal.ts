@@ -1,11 +1,20 @@
 import { Router } from 'express';
 import { MealController } from '../controllers/mealController';
+import {
+  authenticate,
+  optionalAuth,
+  requirePermission,
+  requireSelfOrAdmin,
+} from '../middleware/auth';
 
 const router = Router();
 const mealController = new MealController();
 
+// Anonymous callers only see global meals, signed-in users also their own
+router.use(optionalAuth);
+
 // Basic CRUD operations
-// GET /api/v1/meals - Get all meals with pagination
+// GET /api/v1/meals - Get visible meals with pagination (?visibility=global|own|all)
 router.get('/', mealController.getAllMeals);
 
 // GET /api/v1/meals/types - Get available meal types (must come before /:id)
@@ -43,17 +52,44 @@ router.get('/fat/:min/:max', mealController.getMealsByFatRange);
 // GET /api/v1/meals/carbs/:min/:max - Get meals by carbs range
 router.get('/carbs/:min/:max', mealController.getMealsByCarbsRange);
 
+// GET /api/v1/meals/user/:userId - Get a user's own meals
+router.get(
+  '/user/:userId',
+  authenticate,
+  requireSelfOrAdmin(),
+  mealController.getMealsByUser
+);
+
 // GET /api/v1/meals/:id - Get meal by ID (must come after specific routes)
 router.get('/:id', mealController.getMealById);
 
 // POST /api/v1/meals - Create new meal
-router.post('/', mealController.createMeal);
+router.post('/', authenticate, mealController.createMeal);
+
+// POST /api/v1/meals/import - Import a nutrition database file into the global catalog (catalog:manage)
+router.post(
+  '/import',
+  authenticate,
+  requirePermission('catalog:manage'),
+  mealController.importMeals
+);
 
 // PUT /api/v1/meals/:id - Update meal
-router.put('/:id', mealController.updateMeal);
+router.put('/:id', authenticate, mealController.updateMeal);
+
+// DELETE /api/v1/meals/:id - Delete meal (?strategy=block|cascade|archive)
+router.delete('/:id', authenticate, mealController.deleteMeal);
+
+// Version history
+// GET /api/v1/meals/:id/versions - Get the meal's change history, newest first
+router.get('/:id/versions', mealController.getMealVersions);
 
-// DELETE /api/v1/meals/:id - Delete meal
-router.delete('/:id', mealController.deleteMeal);
+// POST /api/v1/meals/:id/versions/:version/revert - Restore a previous version
+router.post(
+  '/:id/versions/:version/revert',
+  authenticate,
+  mealController.revertMeal
+);
 
 // Additional info endpoints
 // GET /api/v1/meals/:id/info - Get detailed meal info
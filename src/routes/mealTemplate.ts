@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { MealTemplateController } from '../controllers/mealTemplateController';
+import { authenticate, requireSelfOrAdmin } from '../middleware/auth';
+import { validateTimezone } from '../middleware/timezone';
+
+const router = Router();
+const mealTemplateController = new MealTemplateController();
+
+// All meal template routes require an authenticated user
+router.use(authenticate);
+
+// Optional body timezone overrides the user's stored timezone when logging
+router.use(validateTimezone);
+
+// POST /api/v1/meal-templates - Create a template
+router.post('/', mealTemplateController.createTemplate);
+
+// GET /api/v1/meal-templates/user/:userId - Get a user's templates
+router.get(
+  '/user/:userId',
+  requireSelfOrAdmin(),
+  mealTemplateController.getTemplatesByUser
+);
+
+// GET /api/v1/meal-templates/:id - Get template by ID
+router.get('/:id', mealTemplateController.getTemplateById);
+
+// PUT /api/v1/meal-templates/:id - Update template
+router.put('/:id', mealTemplateController.updateTemplate);
+
+// DELETE /api/v1/meal-templates/:id - Delete template
+router.delete('/:id', mealTemplateController.deleteTemplate);
+
+// POST /api/v1/meal-templates/:id/log - Log all template items in one call
+router.post('/:id/log', mealTemplateController.logTemplate);
+
+export default router;
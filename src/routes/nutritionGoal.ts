@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { NutritionGoalController } from '../controllers/nutritionGoalController';
+import { authenticate, requireSelfOrAdmin } from '../middleware/auth';
+
+const router = Router();
+const nutritionGoalController = new NutritionGoalController();
+
+// All nutrition goal routes require an authenticated user
+router.use(authenticate);
+
+// POST /api/v1/nutrition-goals - Create a goal starting on effectiveFrom
+router.post('/', nutritionGoalController.createGoal);
+
+// GET /api/v1/nutrition-goals/user/:userId - Get a user's goal history
+router.get(
+  '/user/:userId',
+  requireSelfOrAdmin(),
+  nutritionGoalController.getGoalsByUser
+);
+
+// GET /api/v1/nutrition-goals/active/:userId - Get the goal in effect on ?date=YYYY-MM-DD
+router.get(
+  '/active/:userId',
+  requireSelfOrAdmin(),
+  nutritionGoalController.getActiveGoal
+);
+
+// GET /api/v1/nutrition-goals/:id - Get goal by ID
+router.get('/:id', nutritionGoalController.getGoalById);
+
+// PUT /api/v1/nutrition-goals/:id - Update goal
+router.put('/:id', nutritionGoalController.updateGoal);
+
+// DELETE /api/v1/nutrition-goals/:id - Delete goal
+router.delete('/:id', nutritionGoalController.deleteGoal);
+
+export default router;
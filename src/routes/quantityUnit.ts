@@ -1,12 +1,20 @@
 import { Router } from 'express';
 import { QuantityUnitController } from '../controllers/quantityUnitController';
+import {
+  authenticate,
+  optionalAuth,
+  requirePermission,
+} from '../middleware/auth';
 
 const router = Router();
 const quantityUnitController = new QuantityUnitController();
 
-// Create quantity unit
-router.post('/', (req, res) =>
-  quantityUnitController.createQuantityUnit(req, res)
+// Create quantity unit (catalog:manage)
+router.post(
+  '/',
+  authenticate,
+  requirePermission('catalog:manage'),
+  (req, res) => quantityUnitController.createQuantityUnit(req, res)
 );
 
 // Get all quantity units with pagination
@@ -19,6 +27,11 @@ router.get('/search', (req, res) =>
   quantityUnitController.searchQuantityUnits(req, res)
 );
 
+// Convert a value between units (?from=&to=&value=, optional &meal= for density)
+router.get('/convert', optionalAuth, (req, res) =>
+  quantityUnitController.convertQuantity(req, res)
+);
+
 // Get quantity unit by ID
 router.get('/:id', (req, res) =>
   quantityUnitController.getQuantityUnitById(req, res)
@@ -39,14 +52,20 @@ router.get('/stats/overview', (req, res) =>
   quantityUnitController.getQuantityUnitStats(req, res)
 );
 
-// Update quantity unit
-router.put('/:id', (req, res) =>
-  quantityUnitController.updateQuantityUnit(req, res)
+// Update quantity unit (catalog:manage)
+router.put(
+  '/:id',
+  authenticate,
+  requirePermission('catalog:manage'),
+  (req, res) => quantityUnitController.updateQuantityUnit(req, res)
 );
 
-// Delete quantity unit
-router.delete('/:id', (req, res) =>
-  quantityUnitController.deleteQuantityUnit(req, res)
+// Delete quantity unit (?strategy=block|cascade|archive, catalog:manage)
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('catalog:manage'),
+  (req, res) => quantityUnitController.deleteQuantityUnit(req, res)
 );
 
 export default router;
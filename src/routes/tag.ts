@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { TagController } from '../controllers/tagController';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 const tagController = new TagController();
@@ -11,14 +12,29 @@ router.get('/', tagController.getAllTags);
 // GET /api/v1/tags/:id - Get tag by ID
 router.get('/:id', tagController.getTagById);
 
-// POST /api/v1/tags - Create new tag
-router.post('/', tagController.createTag);
-
-// PUT /api/v1/tags/:id - Update tag
-router.put('/:id', tagController.updateTag);
-
-// DELETE /api/v1/tags/:id - Delete tag
-router.delete('/:id', tagController.deleteTag);
+// POST /api/v1/tags - Create new tag (catalog:manage)
+router.post(
+  '/',
+  authenticate,
+  requirePermission('catalog:manage'),
+  tagController.createTag
+);
+
+// PUT /api/v1/tags/:id - Update tag (catalog:manage)
+router.put(
+  '/:id',
+  authenticate,
+  requirePermission('catalog:manage'),
+  tagController.updateTag
+);
+
+// DELETE /api/v1/tags/:id - Delete tag (?strategy=block|cascade|archive, catalog:manage)
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('catalog:manage'),
+  tagController.deleteTag
+);
 
 // Search and filter operations
 // GET /api/v1/tags/search - Search tags with filters
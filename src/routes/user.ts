@@ -1,44 +1,80 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/userController';
-import { authenticate, requireAdmin } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = Router();
 const userController = new UserController();
 
-// GET /api/v1/users - Get all users (admin only)
-router.get('/', authenticate, requireAdmin, userController.getAllUsers);
+// GET /api/v1/users - Get all users (users:read)
+router.get(
+  '/',
+  authenticate,
+  requirePermission('users:read'),
+  userController.getAllUsers
+);
 
 // GET /api/v1/users/:id - Get user by ID (authenticated users)
 router.get('/:id', authenticate, userController.getUserById);
 
-// GET /api/v1/users/email/:email - Get user by email (admin only)
+// GET /api/v1/users/email/:email - Get user by email (users:read)
 router.get(
   '/email/:email',
   authenticate,
-  requireAdmin,
+  requirePermission('users:read'),
   userController.getUserByEmail
 );
 
-// POST /api/v1/users - Create new user (admin only)
-router.post('/', authenticate, requireAdmin, userController.createUser);
+// POST /api/v1/users - Create new user (users:manage)
+router.post(
+  '/',
+  authenticate,
+  requirePermission('users:manage'),
+  userController.createUser
+);
 
 // PUT /api/v1/users/:id - Update user (authenticated users can update their own profile)
 router.put('/:id', authenticate, userController.updateUser);
 
-// DELETE /api/v1/users/:id - Delete user (admin only)
-router.delete('/:id', authenticate, requireAdmin, userController.deleteUser);
+// DELETE /api/v1/users/:id - Delete user (users:manage)
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('users:manage'),
+  userController.deleteUser
+);
+
+// POST /api/v1/users/:id/roles - Grant a role (roles:manage)
+router.post(
+  '/:id/roles',
+  authenticate,
+  requirePermission('roles:manage'),
+  userController.grantRole
+);
+
+// DELETE /api/v1/users/:id/roles/:role - Revoke a role (roles:manage)
+router.delete(
+  '/:id/roles/:role',
+  authenticate,
+  requirePermission('roles:manage'),
+  userController.revokeRole
+);
 
-// GET /api/v1/users/search - Search users (admin only)
-router.get('/search', authenticate, requireAdmin, userController.searchUsers);
+// GET /api/v1/users/search - Search users (users:read)
+router.get(
+  '/search',
+  authenticate,
+  requirePermission('users:read'),
+  userController.searchUsers
+);
 
 // GET /api/v1/users/:id/info - Get user detailed info (authenticated users)
 router.get('/:id/info', authenticate, userController.getUserInfo);
 
-// GET /api/v1/users/active - Get active users (admin only)
+// GET /api/v1/users/active - Get active users (users:read)
 router.get(
   '/active',
   authenticate,
-  requireAdmin,
+  requirePermission('users:read'),
   userController.getActiveUsers
 );
 
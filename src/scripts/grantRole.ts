@@ -0,0 +1,59 @@
+// Load environment variables
+import 'dotenv/config';
+import Database from '../config/database';
+import { USER_ROLES, UserRole } from '../models/User';
+import User from '../models/UserSchema';
+
+// Grant a role to a user by email, e.g. to create the first admin:
+//   npm run db:grant-role -- admin@example.com admin
+// Without an email, grants admin to every user listed in the ADMIN_EMAILS
+// variable that older versions used for admin access.
+const grantRole = async () => {
+  try {
+    const [email, role = 'admin'] = process.argv.slice(2);
+
+    if (!USER_ROLES.includes(role as UserRole)) {
+      throw new Error(`Role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+
+    const emails = email
+      ? [email]
+      : (process.env.ADMIN_EMAILS || '')
+          .split(',')
+          .map(adminEmail => adminEmail.trim())
+          .filter(Boolean);
+    if (emails.length === 0) {
+      throw new Error('Pass an email, or set ADMIN_EMAILS to migrate admins');
+    }
+
+    // Connect to database
+    const db = Database.getInstance();
+    await db.connect();
+
+    for (const userEmail of emails) {
+      const user = await User.findOneAndUpdate(
+        { email: userEmail.toLowerCase() },
+        { $addToSet: { roles: role } },
+        { new: true }
+      );
+      if (user) {
+        console.log(`✅ ${user.email}: ${user.roles.join(', ')}`);
+      } else {
+        console.log(`⚠️ No user with email ${userEmail}`);
+      }
+    }
+
+    console.log('✅ Role grant completed successfully!');
+  } catch (error) {
+    console.error('❌ Error granting role:', error);
+    process.exit(1);
+  } finally {
+    // Disconnect from database
+    const db = Database.getInstance();
+    await db.disconnect();
+    process.exit(0);
+  }
+};
+
+// Run the grant
+grantRole();
@@ -0,0 +1,91 @@
+// Load environment variables
+import 'dotenv/config';
+import path from 'path';
+import Database from '../config/database';
+import { MEAL_IMPORT_FORMATS, MealImportFormat } from '../models/MealImport';
+import { MealImportService } from '../services/mealImportService';
+
+const usage =
+  'Usage: npm run db:import-meals -- <file> [--format usda|json|csv] [--source <name>] [--dry-run]';
+
+// Import a nutrition database file (e.g. a USDA FoodData Central JSON
+// download) into the global meal catalog
+const importMeals = async () => {
+  try {
+    const args = process.argv.slice(2);
+    const option = (name: string) => {
+      const index = args.indexOf(name);
+      return index >= 0 ? args[index + 1] : undefined;
+    };
+    const file = args.find(
+      (arg, index) =>
+        !arg.startsWith('--') &&
+        !['--format', '--source'].includes(args[index - 1])
+    );
+    const format = option('--format') as MealImportFormat | undefined;
+    const dryRun = args.includes('--dry-run');
+
+    if (!file) {
+      console.error(`❌ ${usage}`);
+      process.exit(1);
+    }
+    if (format && !MEAL_IMPORT_FORMATS.includes(format)) {
+      console.error(
+        `❌ Format must be one of: ${MEAL_IMPORT_FORMATS.join(', ')}`
+      );
+      process.exit(1);
+    }
+
+    console.log(
+      `🔄 Importing meals from ${file}${dryRun ? ' (dry run)' : ''}...`
+    );
+
+    // Connect to database
+    const db = Database.getInstance();
+    await db.connect();
+
+    const mealImportService = new MealImportService();
+    // The file is streamed, so downloads of any size can be imported
+    const result = await mealImportService.importMealsFromFile(
+      path.resolve(file),
+      {
+        format,
+        source: option('--source'),
+        dryRun,
+      }
+    );
+
+    console.log(
+      `\n📊 Import results (${result.format}, source ${result.source}):`
+    );
+    console.log(`Foods in file: ${result.total}`);
+    console.log(`Inserted: ${result.inserted}`);
+    console.log(`Updated: ${result.updated}`);
+    console.log(`Skipped: ${result.skipped}`);
+    if (result.unitsCreated.length > 0) {
+      console.log(`Quantity units created: ${result.unitsCreated.join(', ')}`);
+    }
+    for (const issue of result.issues) {
+      console.log(
+        `- #${issue.index} ${issue.name || issue.sourceId || ''}: ${issue.reason}`
+      );
+    }
+
+    console.log(
+      dryRun
+        ? '\n✅ Dry run completed, nothing was saved'
+        : '\n✅ Meal import completed successfully!'
+    );
+  } catch (error) {
+    console.error('❌ Error importing meals:', error);
+    process.exit(1);
+  } finally {
+    // Disconnect from database
+    const db = Database.getInstance();
+    await db.disconnect();
+    process.exit(0);
+  }
+};
+
+// Run the import
+importMeals();
@@ -0,0 +1,41 @@
+// Load environment variables
+import 'dotenv/config';
+import Database from '../config/database';
+import {
+  FoodLogService,
+  FOOD_LOG_RETENTION_DAYS,
+} from '../services/foodLogService';
+
+// Permanently remove food logs that have been in the trash longer than
+// FOOD_LOG_RETENTION_DAYS (or the days passed as the first argument).
+// Meant to be run on a schedule, e.g. daily from cron.
+const purgeFoodLogs = async () => {
+  try {
+    const retentionDays =
+      parseInt(process.argv[2] || '', 10) || FOOD_LOG_RETENTION_DAYS;
+    console.log(
+      `🔄 Purging food logs deleted more than ${retentionDays} days ago...`
+    );
+
+    // Connect to database
+    const db = Database.getInstance();
+    await db.connect();
+
+    const foodLogService = new FoodLogService();
+    const purged = await foodLogService.purgeDeletedFoodLogs(retentionDays);
+    console.log(`🗑️ Purged ${purged} food log records`);
+
+    console.log('✅ Food log purge completed successfully!');
+  } catch (error) {
+    console.error('❌ Error purging food logs:', error);
+    process.exit(1);
+  } finally {
+    // Disconnect from database
+    const db = Database.getInstance();
+    await db.disconnect();
+    process.exit(0);
+  }
+};
+
+// Run the purge
+purgeFoodLogs();
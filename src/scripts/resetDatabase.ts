@@ -1,12 +1,11 @@
-import dotenv from 'dotenv';
+// Load environment variables
+import 'dotenv/config';
 import Database from '../config/database';
 import User from '../models/UserSchema';
 import Meal from '../models/MealSchema';
 import FoodLog from '../models/FoodLogSchema';
 import Tag from '../models/TagSchema';
-
-// Load environment variables
-dotenv.config();
+import Session from '../models/SessionSchema';
 
 const resetDatabase = async () => {
   try {
@@ -23,12 +22,17 @@ const resetDatabase = async () => {
     const mealResult = await Meal.deleteMany({});
     console.log(`🗑️ Deleted ${mealResult.deletedCount} meal records`);
 
-    const foodLogResult = await FoodLog.deleteMany({});
+    const foodLogResult = await FoodLog.deleteMany({}).setOptions({
+      withDeleted: true,
+    });
     console.log(`🗑️ Deleted ${foodLogResult.deletedCount} food log records`);
 
     const tagResult = await Tag.deleteMany({});
     console.log(`🗑️ Deleted ${tagResult.deletedCount} tag records`);
 
+    const sessionResult = await Session.deleteMany({});
+    console.log(`🗑️ Deleted ${sessionResult.deletedCount} session records`);
+
     console.log('✅ Database reset completed successfully!');
   } catch (error) {
     console.error('❌ Error resetting database:', error);
@@ -1,9 +1,8 @@
-import dotenv from 'dotenv';
+// Load environment variables
+import 'dotenv/config';
 import Database from '../config/database';
 import User from '../models/UserSchema';
-
-// Load environment variables
-dotenv.config();
+import { MealImportService } from '../services/mealImportService';
 
 const sampleUsers = [
   {
@@ -35,6 +34,7 @@ const sampleUsers = [
     name: 'Admin User',
     email: 'admin@example.com',
     password: 'admin123',
+    roles: ['user', 'admin'],
   },
 ];
 
@@ -54,6 +54,17 @@ const seedDatabase = async () => {
     const insertedUsers = await User.insertMany(sampleUsers);
     console.log(`✅ Inserted ${insertedUsers.length} users`);
 
+    // Fill the meal catalog from a nutrition database file, if configured
+    if (process.env.SEED_MEALS_FILE) {
+      const mealImportService = new MealImportService();
+      const result = await mealImportService.importMealsFromFile(
+        process.env.SEED_MEALS_FILE
+      );
+      console.log(
+        `✅ Imported meals: ${result.inserted} inserted, ${result.updated} updated, ${result.skipped} skipped`
+      );
+    }
+
     // Show some statistics
     const totalUsers = await User.countDocuments();
 
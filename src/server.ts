@@ -1,8 +1,9 @@
+// Load environment variables
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
-import dotenv from 'dotenv';
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
 import userRoutes from './routes/user';
@@ -11,12 +12,11 @@ import mealRoutes from './routes/meal';
 import tagRoutes from './routes/tag';
 import foodLogRoutes from './routes/foodLog';
 import quantityUnitRoutes from './routes/quantityUnit';
+import nutritionGoalRoutes from './routes/nutritionGoal';
+import mealTemplateRoutes from './routes/mealTemplate';
 import healthRoutes from './routes/health';
 import Database from './config/database';
 
-// Load environment variables
-dotenv.config();
-
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -34,6 +34,8 @@ app.use('/api/v1/meals', mealRoutes);
 app.use('/api/v1/tags', tagRoutes);
 app.use('/api/v1/food-logs', foodLogRoutes);
 app.use('/api/v1/quantity-units', quantityUnitRoutes);
+app.use('/api/v1/nutrition-goals', nutritionGoalRoutes);
+app.use('/api/v1/meal-templates', mealTemplateRoutes);
 app.use('/api/v1/users', userRoutes);
 
 // Error handling middleware
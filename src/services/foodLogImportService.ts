@@ -0,0 +1,698 @@
+import {
+  FOOD_LOG_IMPORT_PRESETS,
+  FoodLogImportColumns,
+  FoodLogImportDateFormat,
+  FoodLogImportRowReport,
+  ImportFoodLogsRequest,
+  ImportFoodLogsResponse,
+} from '../models/FoodLogImport';
+import Meal, { buildMealVisibilityFilter } from '../models/MealSchema';
+import QuantityUnit, { IQuantityUnit } from '../models/QuantityUnitSchema';
+import { CsvUtils } from '../utils/csv';
+import { TimezoneUtils } from '../utils/timezone';
+import { UnitConversionUtils } from '../utils/units';
+import { FoodLogService } from './foodLogService';
+import { MealService } from './mealService';
+
+type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+const MAX_IMPORT_ROWS = 2000;
+
+// Items per bulk log call (the bulk endpoint's limit)
+const BULK_CHUNK_SIZE = 20;
+
+// Unit names that mean "servings of the meal" rather than a real unit
+const SERVING_UNIT_NAMES = ['serving', 'servings', 'srv'];
+
+// Meal type names used by other trackers
+const MEAL_TYPE_ALIASES: { [name: string]: MealType | null } = {
+  breakfast: 'breakfast',
+  lunch: 'lunch',
+  dinner: 'dinner',
+  supper: 'dinner',
+  snack: 'snack',
+  snacks: 'snack',
+  uncategorized: null, // Falls back to the request's default meal type
+};
+
+// A meal matches a row when each nutrient is within 10% (or a small
+// absolute margin for tiny values) of the row's nutrition
+const MATCH_TOLERANCE = 0.1;
+const MATCH_MARGIN: { [field: string]: number } = {
+  calories: 5,
+  protein: 1,
+  fat: 1,
+  carbs: 1,
+};
+
+// Nutrition of a row, for the whole quantity logged
+interface RowNutrition {
+  calories: number;
+  protein?: number;
+  fat?: number;
+  carbs?: number;
+}
+
+// A validated CSV row, ready to be matched to a meal
+interface ParsedRow {
+  report: FoodLogImportRowReport;
+  name: string;
+  logDate: number;
+  mealType: MealType;
+  quantity: number;
+  unit?: IQuantityUnit; // Set when the row is logged by amount
+  nutrition: RowNutrition;
+  notes?: string;
+}
+
+// A row matched to (or waiting for) a meal
+interface ResolvedRow {
+  row: ParsedRow;
+  meal: any; // Matched meal, or the data of a meal to create
+  isNew: boolean;
+  servings: number;
+}
+
+export class FoodLogImportService {
+  private foodLogService: FoodLogService;
+  private mealService: MealService;
+
+  constructor() {
+    this.foodLogService = new FoodLogService();
+    this.mealService = new MealService();
+  }
+
+  // Helper method to round imported nutrition to two decimals
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  // Helper method to read a number, allowing thousands separators
+  private parseNumber(value: string | undefined): number | undefined {
+    if (value === undefined || value.trim() === '') {
+      return undefined;
+    }
+    const parsed = Number(value.trim().replace(/,/g, ''));
+    return isNaN(parsed) ? NaN : parsed;
+  }
+
+  // Helper method to read a calendar date, returning null when invalid
+  private parseDate(
+    value: string,
+    format: FoodLogImportDateFormat
+  ): { year: number; month: number; day: number } | null {
+    const parts = value.trim().split(/[-/.]/).map(Number);
+    if (parts.length !== 3 || parts.some(part => isNaN(part))) {
+      return null;
+    }
+
+    const [year, month, day] =
+      format === 'YYYY-MM-DD'
+        ? parts
+        : format === 'MM/DD/YYYY'
+          ? [parts[2], parts[0], parts[1]]
+          : [parts[2], parts[1], parts[0]];
+
+    // Reject dates that would roll over, e.g. 2024-02-30
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (
+      year < 1000 ||
+      date.getUTCFullYear() !== year ||
+      date.getUTCMonth() !== month - 1 ||
+      date.getUTCDate() !== day
+    ) {
+      return null;
+    }
+    return { year, month, day };
+  }
+
+  // Helper method to find an active unit by short name or name, ignoring
+  // case and a plural "s". Results are cached for the whole import.
+  private async findUnit(
+    name: string,
+    cache: Map<string, IQuantityUnit | null>
+  ): Promise<IQuantityUnit | null> {
+    const key = name.trim().toLowerCase();
+    if (cache.has(key)) {
+      return cache.get(key) as IQuantityUnit | null;
+    }
+
+    const names = [key];
+    if (key.length > 1 && key.endsWith('s')) {
+      names.push(key.slice(0, -1));
+    }
+    const units = await QuantityUnit.find({
+      isActive: { $ne: false },
+      $or: [{ shortName: { $in: names } }, { name: { $in: names } }],
+    })
+      .collation({ locale: 'en', strength: 2 })
+      .lean();
+
+    // Prefer an exact short name match, then the singular form
+    const unit =
+      names
+        .map(candidate =>
+          units.find(
+            u =>
+              u.shortName.toLowerCase() === candidate ||
+              u.name.toLowerCase() === candidate
+          )
+        )
+        .find(Boolean) || null;
+    cache.set(key, unit);
+    return unit;
+  }
+
+  // Helper method to check whether a meal's nutrition for some servings
+  // matches a row's nutrition
+  private nutritionMatches(
+    meal: any,
+    servings: number,
+    nutrition: RowNutrition
+  ): boolean {
+    return (['calories', 'protein', 'fat', 'carbs'] as const).every(field => {
+      const expected = nutrition[field];
+      if (expected === undefined) {
+        return true;
+      }
+      const actual = (meal[field] || 0) * servings;
+      return (
+        Math.abs(actual - expected) <=
+        Math.max(MATCH_MARGIN[field], expected * MATCH_TOLERANCE)
+      );
+    });
+  }
+
+  // Helper method to work out how many servings of a meal a row is,
+  // returning null when the row's unit cannot be converted to the meal's
+  private servingsOfMeal(meal: any, row: ParsedRow): number | null {
+    if (!row.unit) {
+      return row.quantity;
+    }
+    if (!meal.quantityUnit) {
+      return null;
+    }
+
+    const mealUnitId = (meal.quantityUnit._id || meal.quantityUnit).toString();
+    const amount =
+      mealUnitId === (row.unit._id as any).toString()
+        ? row.quantity
+        : meal.quantityUnit.shortName
+          ? UnitConversionUtils.convert(
+              row.quantity,
+              row.unit,
+              meal.quantityUnit,
+              meal.density
+            )
+          : null;
+    return amount === null
+      ? null
+      : Math.round((amount / meal.quantity) * 1000000) / 1000000;
+  }
+
+  // Parse one CSV line into a row, collecting every validation error
+  private async parseRow(
+    values: string[],
+    line: number,
+    columnIndex: { [field in keyof FoodLogImportColumns]?: number },
+    options: {
+      dateFormat: FoodLogImportDateFormat;
+      nutritionBasis: 'total' | 'serving';
+      defaultMealType: MealType;
+      timezone: string;
+    },
+    unitCache: Map<string, IQuantityUnit | null>
+  ): Promise<ParsedRow> {
+    const get = (field: keyof FoodLogImportColumns): string | undefined => {
+      const index = columnIndex[field];
+      return index === undefined ? undefined : values[index]?.trim();
+    };
+    const errors: string[] = [];
+    const report: FoodLogImportRowReport = {
+      row: line,
+      status: 'error',
+      errors,
+    };
+
+    // Meal name
+    const name = get('meal') || '';
+    report.meal = name || undefined;
+    if (!name) {
+      errors.push('Meal name is required');
+    } else if (name.length > 100) {
+      errors.push('Meal name cannot exceed 100 characters');
+    }
+
+    // Date
+    let logDate = 0;
+    const dateValue = get('date') || '';
+    const date = dateValue
+      ? this.parseDate(dateValue, options.dateFormat)
+      : null;
+    if (!date) {
+      errors.push(
+        dateValue
+          ? `Invalid date '${dateValue}', expected ${options.dateFormat}`
+          : 'Date is required'
+      );
+    } else {
+      report.date = `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+      logDate = TimezoneUtils.zonedMidnight(
+        date.year,
+        date.month,
+        date.day,
+        options.timezone
+      );
+    }
+
+    // Meal type
+    let mealType = options.defaultMealType;
+    const mealTypeValue = get('mealType');
+    if (mealTypeValue) {
+      const alias = MEAL_TYPE_ALIASES[mealTypeValue.toLowerCase()];
+      if (alias === undefined) {
+        errors.push(
+          `Unknown meal type '${mealTypeValue}', expected breakfast, lunch, dinner or snack`
+        );
+      } else if (alias) {
+        mealType = alias;
+      }
+    }
+    report.mealType = mealType;
+
+    // Quantity, optionally with its unit (e.g. "150 g")
+    let quantity = 1;
+    let unitName = get('unit');
+    const quantityValue = get('quantity');
+    if (quantityValue) {
+      const match = quantityValue.match(/^([\d.,]+)\s*(.*)$/);
+      const parsed = match ? this.parseNumber(match[1]) : NaN;
+      if (parsed === undefined || isNaN(parsed) || parsed <= 0) {
+        errors.push(`Invalid quantity '${quantityValue}'`);
+      } else {
+        quantity = parsed;
+        unitName = unitName || match?.[2] || undefined;
+      }
+    }
+
+    let unit: IQuantityUnit | undefined;
+    if (unitName && !SERVING_UNIT_NAMES.includes(unitName.toLowerCase())) {
+      const found = await this.findUnit(unitName, unitCache);
+      if (found) {
+        unit = found;
+        report.amount = quantity;
+        report.unit = found.shortName;
+      } else {
+        errors.push(`Quantity unit not found: ${unitName}`);
+      }
+    }
+
+    // Nutrition, scaled to the whole quantity
+    const scale = options.nutritionBasis === 'serving' ? quantity : 1;
+    const nutrition: RowNutrition = { calories: 0 };
+    (['calories', 'protein', 'fat', 'carbs'] as const).forEach(field => {
+      const raw = get(field);
+      const value = this.parseNumber(raw);
+      if (value === undefined) {
+        if (field === 'calories') {
+          errors.push('Calories are required');
+        }
+        return;
+      }
+      if (isNaN(value) || value < 0) {
+        errors.push(`Invalid ${field} '${raw}'`);
+        return;
+      }
+      nutrition[field] = this.round(value * scale);
+    });
+
+    const notes = get('notes') || undefined;
+    if (notes && notes.length > 500) {
+      errors.push('Notes cannot exceed 500 characters');
+    }
+
+    return {
+      report,
+      name,
+      logDate,
+      mealType,
+      quantity,
+      unit,
+      nutrition,
+      notes,
+    };
+  }
+
+  // Data for a new private meal holding the row's food. Rows with a unit
+  // become a meal of that amount, logged as one serving; rows without one
+  // become a single-serving meal.
+  private buildNewMeal(
+    row: ParsedRow,
+    userId: string,
+    servingUnit: IQuantityUnit
+  ): any {
+    const servings = row.unit ? 1 : row.quantity;
+    const perServing = (value?: number) =>
+      value === undefined ? undefined : this.round(value / servings);
+
+    return {
+      name: row.name,
+      calories: perServing(row.nutrition.calories),
+      protein: perServing(row.nutrition.protein) || 0,
+      fat: perServing(row.nutrition.fat),
+      carbs: perServing(row.nutrition.carbs),
+      quantity: row.unit ? row.quantity : 1,
+      quantityUnit: row.unit || servingUnit,
+      user: userId,
+    };
+  }
+
+  public async importFoodLogs(
+    data: ImportFoodLogsRequest
+  ): Promise<ImportFoodLogsResponse> {
+    try {
+      const preset = FOOD_LOG_IMPORT_PRESETS[data.preset || 'bite-count'];
+      const columns: FoodLogImportColumns = {
+        ...preset.columns,
+        ...data.columns,
+      };
+      const dateFormat = data.dateFormat || preset.dateFormat;
+      const nutritionBasis = data.nutritionBasis || preset.nutritionBasis;
+
+      const lines = CsvUtils.parse(data.csv);
+      const [header = [], ...body] = lines;
+      const headerIndex = new Map(
+        header.map((column, index) => [column.trim().toLowerCase(), index])
+      );
+
+      // Locate each mapped column in the header
+      const columnIndex: { [field in keyof FoodLogImportColumns]?: number } =
+        {};
+      (Object.keys(columns) as (keyof FoodLogImportColumns)[]).forEach(
+        field => {
+          const column = columns[field];
+          const index = column
+            ? headerIndex.get(column.trim().toLowerCase())
+            : undefined;
+          if (index !== undefined) {
+            columnIndex[field] = index;
+          }
+        }
+      );
+      const missing = (['date', 'meal', 'calories'] as const).filter(
+        field => columnIndex[field] === undefined
+      );
+      if (missing.length > 0) {
+        throw new Error(
+          `Missing column: ${missing.map(field => columns[field]).join(', ')}`
+        );
+      }
+
+      // Skip blank lines, keeping the line number of every other row
+      const entries = body
+        .map((values, index) => ({ values, line: index + 2 }))
+        .filter(({ values }) => values.some(value => value.trim() !== ''));
+      if (entries.length === 0) {
+        throw new Error('No rows to import');
+      }
+      if (entries.length > MAX_IMPORT_ROWS) {
+        throw new Error(
+          `Cannot import more than ${MAX_IMPORT_ROWS} rows at once`
+        );
+      }
+
+      const timezone = await this.foodLogService.resolveTimezone(
+        data.user,
+        data.timezone
+      );
+      const unitCache = new Map<string, IQuantityUnit | null>();
+      const rows: ParsedRow[] = [];
+      for (const { values, line } of entries) {
+        rows.push(
+          await this.parseRow(
+            values,
+            line,
+            columnIndex,
+            {
+              dateFormat,
+              nutritionBasis,
+              defaultMealType: data.mealType || 'snack',
+              timezone,
+            },
+            unitCache
+          )
+        );
+      }
+
+      // Step 1: Load the user's usable meals with the imported names
+      const validRows = rows.filter(row => row.report.errors.length === 0);
+      const names = [...new Set(validRows.map(row => row.name))];
+      const candidates: any[] = names.length
+        ? await Meal.find({
+            name: { $in: names },
+            ...buildMealVisibilityFilter({
+              userId: data.user,
+              isAdmin: false,
+            }),
+          })
+            .populate('quantityUnit')
+            .collation({ locale: 'en', strength: 2 })
+            .lean()
+        : [];
+      const mealsByName = new Map<string, any[]>();
+      candidates.forEach(meal => {
+        const key = meal.name.toLowerCase();
+        mealsByName.set(key, [...(mealsByName.get(key) || []), meal]);
+      });
+
+      // Unit of new meals for rows logged in servings
+      let servingUnit: IQuantityUnit | null = null;
+      for (const name of SERVING_UNIT_NAMES) {
+        servingUnit = servingUnit || (await this.findUnit(name, unitCache));
+      }
+
+      // Step 2: Match every row to a meal. Meals planned for earlier rows
+      // are candidates too, so a food repeated in the file is created once.
+      const resolved: ResolvedRow[] = [];
+      const newMeals: any[] = [];
+      for (const row of validRows) {
+        const key = row.name.toLowerCase();
+        let match: { meal: any; servings: number } | null = null;
+        for (const meal of mealsByName.get(key) || []) {
+          const servings = this.servingsOfMeal(meal, row);
+          if (
+            servings !== null &&
+            servings > 0 &&
+            this.nutritionMatches(meal, servings, row.nutrition)
+          ) {
+            match = { meal, servings };
+            break;
+          }
+        }
+
+        if (!match) {
+          if (!row.unit && !servingUnit) {
+            row.report.errors.push(
+              `No '${SERVING_UNIT_NAMES[0]}' quantity unit exists to create meal '${row.name}'; add a unit to the row or create the unit`
+            );
+            continue;
+          }
+          const meal = this.buildNewMeal(
+            row,
+            data.user,
+            servingUnit as IQuantityUnit
+          );
+          newMeals.push(meal);
+          mealsByName.set(key, [...(mealsByName.get(key) || []), meal]);
+          match = { meal, servings: row.unit ? 1 : row.quantity };
+        }
+
+        // Rows given by amount may log a small fraction of a serving
+        if (
+          match.servings > 100 ||
+          (row.unit ? match.servings <= 0 : match.servings < 0.1)
+        ) {
+          row.report.errors.push(
+            `Servings must be ${row.unit ? 'greater than 0' : 'at least 0.1'} and at most 100 (got ${match.servings} of '${match.meal.name}')`
+          );
+          continue;
+        }
+
+        resolved.push({
+          row,
+          meal: match.meal,
+          isNew: newMeals.includes(match.meal),
+          servings: match.servings,
+        });
+      }
+
+      // Step 3: Create the new meals, then log every row through the bulk
+      // path, one call per day and meal type
+      const viewer = { userId: data.user, isAdmin: false };
+      let mealsCreated = newMeals.length;
+      let logsCreated = 0;
+      let logsUpdated = 0;
+      if (!data.dryRun) {
+        for (const meal of newMeals) {
+          try {
+            const created = await this.mealService.createMeal(
+              {
+                ...meal,
+                quantityUnit: (meal.quantityUnit._id as any).toString(),
+              },
+              viewer
+            );
+            meal._id = created._id;
+          } catch (error) {
+            const message =
+              error instanceof Error ? error.message : 'Unknown error';
+            resolved
+              .filter(entry => entry.meal === meal)
+              .forEach(entry =>
+                entry.row.report.errors.push(
+                  `Failed to create meal: ${message}`
+                )
+              );
+          }
+        }
+
+        const groups = new Map<string, ResolvedRow[]>();
+        resolved.forEach(entry => {
+          if (!entry.meal._id) {
+            return;
+          }
+          const groupKey = `${entry.row.logDate}|${entry.row.mealType}`;
+          groups.set(groupKey, [...(groups.get(groupKey) || []), entry]);
+        });
+
+        for (const entries of groups.values()) {
+          // The bulk path replaces the log of a meal already logged that
+          // day, so repeated foods are combined into a single item first
+          const items = new Map<
+            string,
+            { entries: ResolvedRow[]; item: any }
+          >();
+          entries.forEach(entry => {
+            const mealId = entry.meal._id.toString();
+            const existing = items.get(mealId);
+            if (existing) {
+              existing.entries.push(entry);
+              existing.item.servings =
+                Math.round(
+                  (existing.item.servings + entry.servings) * 1000000
+                ) / 1000000;
+              existing.item.notes = existing.item.notes || entry.row.notes;
+            } else {
+              items.set(mealId, {
+                entries: [entry],
+                item: {
+                  meal: mealId,
+                  servings: entry.servings,
+                  notes: entry.row.notes,
+                },
+              });
+            }
+          });
+
+          // Rows logged once by amount keep their amount and unit
+          items.forEach(({ entries: grouped, item }) => {
+            const { row } = grouped[0];
+            if (grouped.length === 1 && row.unit) {
+              item.amount = row.quantity;
+              item.quantityUnit = (row.unit._id as any).toString();
+            }
+          });
+
+          // Combined rows over the servings limit of one log fail on their
+          // own instead of failing the rest of their chunk
+          const itemList = [...items.values()].filter(
+            ({ entries: grouped, item }) => {
+              if (item.servings <= 100) {
+                return true;
+              }
+              grouped.forEach(entry =>
+                entry.row.report.errors.push(
+                  `Servings cannot exceed 100 (the rows of '${entry.meal.name}' on this day and meal add up to ${item.servings})`
+                )
+              );
+              return false;
+            }
+          );
+          for (let i = 0; i < itemList.length; i += BULK_CHUNK_SIZE) {
+            const chunk = itemList.slice(i, i + BULK_CHUNK_SIZE);
+            try {
+              const result = await this.foodLogService.createBulkFoodLog({
+                user: data.user,
+                mealType: entries[0].row.mealType,
+                items: chunk.map(({ item }) => item),
+                logDate: entries[0].row.logDate,
+                timezone,
+              });
+              logsCreated += result.data.newItems;
+              logsUpdated += result.data.updatedItems;
+            } catch (error) {
+              const message =
+                error instanceof Error ? error.message : 'Unknown error';
+              chunk.forEach(({ entries: failed }) =>
+                failed.forEach(entry =>
+                  entry.row.report.errors.push(`Failed to log: ${message}`)
+                )
+              );
+            }
+          }
+        }
+
+        // Remove the created meals none of whose rows were logged. A meal
+        // a log ended up referencing anyway is kept, as deletion is blocked.
+        const createdMeals = newMeals.filter(meal => meal._id);
+        mealsCreated = createdMeals.length;
+        for (const meal of createdMeals) {
+          const logged = resolved.some(
+            entry => entry.meal === meal && entry.row.report.errors.length === 0
+          );
+          if (logged) {
+            continue;
+          }
+          const result = await this.mealService.deleteMeal(
+            meal._id.toString(),
+            viewer
+          );
+          if (result?.outcome === 'deleted') {
+            mealsCreated--;
+          }
+        }
+      }
+
+      // Step 4: Finish the per-row report
+      resolved.forEach(({ row, meal, isNew, servings }) => {
+        if (row.report.errors.length > 0) {
+          return;
+        }
+        row.report.status = isNew ? 'new-meal' : 'matched';
+        row.report.servings = servings;
+        row.report.mealId = meal._id?.toString();
+      });
+      const reports = rows.map(row => row.report);
+      const errorRows = reports.filter(r => r.status === 'error').length;
+      const newMealRows = reports.filter(r => r.status === 'new-meal').length;
+
+      return {
+        dryRun: !!data.dryRun,
+        totalRows: reports.length,
+        validRows: reports.length - errorRows,
+        errorRows,
+        matchedRows: reports.length - errorRows - newMealRows,
+        newMealRows,
+        mealsCreated,
+        logsCreated,
+        logsUpdated,
+        rows: reports,
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to import food logs: ${error.message}`);
+      }
+      throw new Error('Failed to import food logs');
+    }
+  }
+}
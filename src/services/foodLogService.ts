@@ -1,15 +1,193 @@
-import { startOfDay } from 'date-fns';
+import mongoose from 'mongoose';
 import {
+  BulkFoodLogItem,
   BulkFoodLogResponse,
+  CopyFoodLogsRequest,
+  CopyFoodLogsResponse,
   CreateBulkFoodLogRequest,
   CreateFoodLogRequest,
   DailyNutritionSummary,
+  FoodLogExportOptions,
+  FoodLogExportRow,
   FoodLogSearchParams,
+  FoodLogStats,
+  LoggingStreaks,
+  NutritionGranularity,
+  SkippedCopyItem,
   UpdateFoodLogRequest,
 } from '../models/FoodLog';
-import FoodLog, { IFoodLog } from '../models/FoodLogSchema';
+import FoodLog, {
+  IFoodLog,
+  IFoodLogNutrition,
+  logNutritionStages,
+} from '../models/FoodLogSchema';
+import Meal, { buildMealVisibilityFilter } from '../models/MealSchema';
+import User from '../models/UserSchema';
+import { MICRONUTRIENT_KEYS } from '../utils/nutrients';
+import { DEFAULT_TIMEZONE, TimezoneUtils } from '../utils/timezone';
+import { OwnershipUtils } from '../utils/ownership';
+import { UpdateUtils } from '../utils/update';
+import { NutritionGoalService } from './nutritionGoalService';
+import { QuantityUnitService } from './quantityUnitService';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_FOOD_LOG_RETENTION_DAYS = 30;
+
+// Most items a single bulk log may contain
+const MAX_BULK_ITEMS = 20;
+// Servings derived from an amount are rounded to 6 decimals, so small
+// amounts of a large reference quantity keep their value
+const SERVINGS_PRECISION = 1000000;
+// Most servings a single log can hold
+const MAX_LOG_SERVINGS = 100;
+
+// Fields of a food log that are updated as given
+const FOOD_LOG_UPDATE_FIELDS = [
+  'meal',
+  'mealType',
+  'logDate',
+  'loggedAt',
+  'notes',
+];
+
+// Days a deleted food log stays in the trash before it is purged
+export const FOOD_LOG_RETENTION_DAYS =
+  parseInt(process.env.FOOD_LOG_RETENTION_DAYS || '', 10) ||
+  DEFAULT_FOOD_LOG_RETENTION_DAYS;
+
+// Servings of a log plus the amount it was entered as, if any
+interface LogQuantity {
+  servings: number;
+  amount?: number;
+  quantityUnit?: string;
+}
 
 export class FoodLogService {
+  private nutritionGoalService: NutritionGoalService;
+  private quantityUnitService: QuantityUnitService;
+
+  constructor() {
+    this.nutritionGoalService = new NutritionGoalService();
+    this.quantityUnitService = new QuantityUnitService();
+  }
+
+  // Helper methods to convert local date keys (YYYY-MM-DD) to consecutive
+  // day numbers and back, so streaks can be counted with plain arithmetic
+  private toDayNumber(dateKey: string): number {
+    return Date.parse(`${dateKey}T00:00:00Z`) / DAY_IN_MS;
+  }
+
+  private fromDayNumber(dayNumber: number): string {
+    return new Date(dayNumber * DAY_IN_MS).toISOString().slice(0, 10);
+  }
+
+  // Helper method to resolve the timezone used for a user's day boundaries
+  public async resolveTimezone(
+    userId: string,
+    override?: string
+  ): Promise<string> {
+    if (override) {
+      return override;
+    }
+
+    const user = await User.findById(userId).select('timezone').lean();
+    return user?.timezone || DEFAULT_TIMEZONE;
+  }
+
+  // Helper method to copy a meal's current nutrition into a log snapshot
+  private buildNutritionSnapshot(meal: any): IFoodLogNutrition {
+    const snapshot: IFoodLogNutrition = {
+      name: meal.name,
+      calories: meal.calories,
+      protein: meal.protein,
+      fat: meal.fat,
+      carbs: meal.carbs,
+      quantity: meal.quantity,
+      quantityUnit: meal.quantityUnit,
+      density: meal.density,
+      syncedAt: Date.now(),
+    };
+    MICRONUTRIENT_KEYS.forEach(key => {
+      if (meal[key] !== undefined) {
+        snapshot[key] = meal[key];
+      }
+    });
+    return snapshot;
+  }
+
+  // Helper method to restrict meals to the ones a user can log: global meals
+  // and their own, another user's private meals count as not found
+  private usableMealsFilter(userId: string): any {
+    return buildMealVisibilityFilter({ userId, isAdmin: false });
+  }
+
+  // Helper method to derive servings from an amount in any convertible unit,
+  // e.g. 150 g of a meal with a 100 g reference quantity is 1.5 servings.
+  // `reference` is the log's nutrition snapshot or the meal itself, whose
+  // density (if set) allows logging volumes of a mass-based meal and back.
+  private async resolveServingsFromAmount(
+    reference: { quantity: number; quantityUnit?: any; density?: number },
+    amount: number,
+    quantityUnitId: string
+  ): Promise<number> {
+    if (!mongoose.Types.ObjectId.isValid(quantityUnitId)) {
+      throw new Error('Quantity unit not found');
+    }
+
+    let amountInMealUnit = amount;
+    if (quantityUnitId.toString() !== reference.quantityUnit?.toString()) {
+      const conversion = await this.quantityUnitService.convertAmount(
+        amount,
+        quantityUnitId.toString(),
+        reference.quantityUnit?.toString(),
+        reference.density
+      );
+      amountInMealUnit = conversion.result;
+    }
+
+    return (
+      Math.round((amountInMealUnit / reference.quantity) * SERVINGS_PRECISION) /
+      SERVINGS_PRECISION
+    );
+  }
+
+  // Helper method to resolve the servings (and entered amount, if any) to
+  // store on a log. An amount takes precedence over servings.
+  private async resolveLogQuantity(
+    reference: { quantity: number; quantityUnit?: any; density?: number },
+    data: { servings?: number; amount?: number; quantityUnit?: string }
+  ): Promise<LogQuantity> {
+    if (data.amount !== undefined && data.quantityUnit) {
+      return {
+        servings: await this.resolveServingsFromAmount(
+          reference,
+          data.amount,
+          data.quantityUnit
+        ),
+        amount: data.amount,
+        quantityUnit: data.quantityUnit,
+      };
+    }
+    return { servings: data.servings as number };
+  }
+
+  // Helper method to build the update for a log's quantity, clearing the
+  // entered amount when the log is set by servings
+  private buildQuantityUpdate(quantity: LogQuantity): any {
+    if (quantity.amount !== undefined) {
+      return {
+        servings: quantity.servings,
+        amount: quantity.amount,
+        quantityUnit: quantity.quantityUnit,
+      };
+    }
+    return {
+      servings: quantity.servings,
+      $unset: { amount: 1, quantityUnit: 1 },
+    };
+  }
+
   // Helper method to find existing food log for same meal and log date
   private async findExistingFoodLog(
     userId: string,
@@ -40,11 +218,11 @@ export class FoodLogService {
   // Helper method to update existing food log servings
   private async updateFoodLogServings(
     logId: string,
-    newServings: number,
+    quantity: LogQuantity,
     notes?: string
   ): Promise<IFoodLog | null> {
     try {
-      const updateData: any = { servings: newServings };
+      const updateData: any = this.buildQuantityUpdate(quantity);
       if (notes !== undefined) {
         updateData.notes = notes.trim();
       }
@@ -74,7 +252,21 @@ export class FoodLogService {
 
   public async createFoodLog(data: CreateFoodLogRequest): Promise<IFoodLog> {
     try {
-      const logDate = data.logDate || startOfDay(new Date()).getTime();
+      // logDate is always the start of the user's local day
+      const timezone = await this.resolveTimezone(data.user, data.timezone);
+      const logDate = TimezoneUtils.startOfDay(
+        data.logDate || Date.now(),
+        timezone
+      );
+
+      const meal = await Meal.findOne({
+        _id: data.meal,
+        ...this.usableMealsFilter(data.user),
+      }).lean();
+      if (!meal) {
+        throw new Error('Meal not found');
+      }
+      const quantity = await this.resolveLogQuantity(meal, data);
 
       // Check if a food log already exists for the same meal, log date, and meal type
       const existingLog = await this.findExistingFoodLog(
@@ -88,7 +280,7 @@ export class FoodLogService {
         // Update existing log with new servings (replace, don't add)
         const updatedLog = await this.updateFoodLogServings(
           (existingLog._id as any).toString(),
-          data.servings,
+          quantity,
           data.notes
         );
 
@@ -103,7 +295,8 @@ export class FoodLogService {
           user: data.user,
           meal: data.meal,
           mealType: data.mealType,
-          servings: data.servings,
+          ...quantity,
+          nutrition: this.buildNutritionSnapshot(meal),
           logDate: logDate,
           loggedAt: data.loggedAt || Date.now(),
           notes: data.notes?.trim(),
@@ -128,8 +321,11 @@ export class FoodLogService {
     }
   }
 
+  // `snapshots` (by meal ID) are nutrition snapshots to keep instead of
+  // taking a fresh one from the meal, e.g. when copying logs
   public async createBulkFoodLog(
-    data: CreateBulkFoodLogRequest
+    data: CreateBulkFoodLogRequest,
+    snapshots?: Map<string, IFoodLogNutrition>
   ): Promise<BulkFoodLogResponse> {
     try {
       // Validate input
@@ -137,15 +333,43 @@ export class FoodLogService {
         throw new Error('At least one food item is required');
       }
 
-      if (data.items.length > 20) {
-        throw new Error('Cannot log more than 20 items at once');
+      if (data.items.length > MAX_BULK_ITEMS) {
+        throw new Error(`Cannot log more than ${MAX_BULK_ITEMS} items at once`);
       }
 
-      const logDate = data.logDate || startOfDay(new Date()).getTime();
+      const timezone = await this.resolveTimezone(data.user, data.timezone);
+      const logDate = TimezoneUtils.startOfDay(
+        data.logDate || Date.now(),
+        timezone
+      );
       const loggedAt = data.loggedAt || Date.now();
 
       // Step 1: Batch find all existing food logs for the given meals, log date, and meal type
       const mealIds = data.items.map(item => item.meal);
+      const meals = await Meal.find({
+        _id: { $in: mealIds },
+        ...this.usableMealsFilter(data.user),
+      }).lean();
+      const mealsMap = new Map();
+      meals.forEach(meal => {
+        mealsMap.set((meal._id as any).toString(), meal);
+      });
+
+      const missingMealIds = mealIds.filter(mealId => !mealsMap.has(mealId));
+      if (missingMealIds.length > 0) {
+        throw new Error(`Meal not found: ${missingMealIds.join(', ')}`);
+      }
+
+      // Servings for each item, derived from its amount when given
+      const quantities = await Promise.all(
+        data.items.map(item =>
+          this.resolveLogQuantity(
+            snapshots?.get(item.meal) || mealsMap.get(item.meal),
+            item
+          )
+        )
+      );
+
       const existingLogs = await FoodLog.find({
         user: data.user,
         meal: { $in: mealIds },
@@ -161,15 +385,20 @@ export class FoodLogService {
       });
 
       // Step 2: Separate items into updates and creates
-      const itemsToUpdate: Array<{ item: any; existingLog: IFoodLog }> = [];
-      const itemsToCreate: any[] = [];
-
-      data.items.forEach(item => {
+      const itemsToUpdate: Array<{
+        item: any;
+        quantity: LogQuantity;
+        existingLog: IFoodLog;
+      }> = [];
+      const itemsToCreate: Array<{ item: any; quantity: LogQuantity }> = [];
+
+      data.items.forEach((item, index) => {
+        const quantity = quantities[index];
         const existingLog = existingLogsMap.get(item.meal);
         if (existingLog) {
-          itemsToUpdate.push({ item, existingLog });
+          itemsToUpdate.push({ item, quantity, existingLog });
         } else {
-          itemsToCreate.push(item);
+          itemsToCreate.push({ item, quantity });
         }
       });
 
@@ -177,9 +406,9 @@ export class FoodLogService {
       const updatedLogs: IFoodLog[] = [];
       if (itemsToUpdate.length > 0) {
         const updatePromises = itemsToUpdate.map(
-          async ({ item, existingLog }) => {
+          async ({ item, quantity, existingLog }) => {
             try {
-              const updateData: any = { servings: item.servings };
+              const updateData: any = this.buildQuantityUpdate(quantity);
               if (item.notes?.trim() || data.notes?.trim()) {
                 updateData.notes = item.notes?.trim() || data.notes?.trim();
               }
@@ -228,11 +457,14 @@ export class FoodLogService {
       // Step 4: Batch create new logs
       const createdLogs: IFoodLog[] = [];
       if (itemsToCreate.length > 0) {
-        const newLogsData = itemsToCreate.map(item => ({
+        const newLogsData = itemsToCreate.map(({ item, quantity }) => ({
           user: data.user,
           meal: item.meal,
           mealType: data.mealType,
-          servings: item.servings,
+          ...quantity,
+          nutrition:
+            snapshots?.get(item.meal) ||
+            this.buildNutritionSnapshot(mealsMap.get(item.meal)),
           logDate: logDate,
           loggedAt: loggedAt,
           notes: item.notes?.trim() || data.notes?.trim(),
@@ -265,7 +497,7 @@ export class FoodLogService {
       let totalCarbs = 0;
 
       allLogs.forEach(log => {
-        const meal = log.meal as any;
+        const meal = (log.nutrition || log.meal) as any;
         if (meal && meal.calories !== undefined) {
           const multiplier = log.servings;
           totalCalories += (meal.calories || 0) * multiplier;
@@ -304,9 +536,154 @@ export class FoodLogService {
     }
   }
 
-  public async getFoodLogById(id: string): Promise<IFoodLog | null> {
+  // Copy the logs of a day (or one meal type slot) onto other days. Each
+  // target slot goes through the bulk path, so meals already logged there
+  // are updated instead of duplicated.
+  public async copyFoodLogs(
+    data: CopyFoodLogsRequest
+  ): Promise<CopyFoodLogsResponse> {
     try {
-      const foodLog = await FoodLog.findById(id)
+      const timezone = await this.resolveTimezone(data.user, data.timezone);
+      const sourceDate = TimezoneUtils.startOfDay(data.sourceDate, timezone);
+
+      const query: any = {
+        user: data.user,
+        logDate: {
+          $gte: sourceDate,
+          $lte: TimezoneUtils.endOfDay(data.sourceDate, timezone),
+        },
+      };
+      if (data.mealType) {
+        query.mealType = data.mealType;
+      }
+
+      const sourceLogs = await FoodLog.find(query).sort({ loggedAt: 1 }).lean();
+      if (sourceLogs.length === 0) {
+        throw new Error('No food logs found to copy');
+      }
+
+      // Group the source logs into bulk items per meal type slot. A meal
+      // logged more than once in a slot becomes one item with the summed
+      // quantity, as each slot holds one log per meal.
+      const itemsByMealType = new Map<
+        CreateBulkFoodLogRequest['mealType'],
+        Map<string, BulkFoodLogItem>
+      >();
+      // Copies keep the nutrition the source logs were logged with
+      const snapshots = new Map<string, IFoodLogNutrition>();
+      sourceLogs.forEach(log => {
+        const mealId = log.meal.toString();
+        if (log.nutrition && !snapshots.has(mealId)) {
+          snapshots.set(mealId, log.nutrition);
+        }
+
+        const items = itemsByMealType.get(log.mealType) || new Map();
+        const item = items.get(mealId);
+        if (!item) {
+          items.set(mealId, {
+            meal: mealId,
+            servings: log.servings,
+            amount: log.amount,
+            quantityUnit: log.quantityUnit?.toString(),
+            notes: log.notes,
+          });
+        } else {
+          item.servings =
+            Math.round(
+              ((item.servings || 0) + log.servings) * SERVINGS_PRECISION
+            ) / SERVINGS_PRECISION;
+          // Amounts only add up when entered in the same unit
+          if (
+            item.amount !== undefined &&
+            log.amount !== undefined &&
+            item.quantityUnit === log.quantityUnit?.toString()
+          ) {
+            item.amount += log.amount;
+          } else {
+            delete item.amount;
+            delete item.quantityUnit;
+          }
+          item.notes = item.notes || log.notes;
+        }
+        itemsByMealType.set(log.mealType, items);
+      });
+
+      // A merged meal over the servings limit of one log is reported instead
+      // of failing the whole batch it would be copied in
+      const skippedItems: SkippedCopyItem[] = [];
+      itemsByMealType.forEach((items, mealType) => {
+        items.forEach((item, mealId) => {
+          if ((item.servings || 0) > MAX_LOG_SERVINGS) {
+            skippedItems.push({
+              meal: mealId,
+              mealType,
+              servings: item.servings as number,
+              error: `Servings cannot exceed ${MAX_LOG_SERVINGS}`,
+            });
+            items.delete(mealId);
+          }
+        });
+      });
+
+      const targetDates = [
+        ...new Set(
+          data.targetDates.map(date => TimezoneUtils.startOfDay(date, timezone))
+        ),
+      ];
+
+      // Slots with more meals than a bulk log takes are copied in batches
+      const results: BulkFoodLogResponse['data'][] = [];
+      for (const targetDate of targetDates) {
+        for (const [mealType, itemsByMeal] of itemsByMealType) {
+          const items = [...itemsByMeal.values()];
+          for (let i = 0; i < items.length; i += MAX_BULK_ITEMS) {
+            const result = await this.createBulkFoodLog(
+              {
+                user: data.user,
+                mealType,
+                items: items.slice(i, i + MAX_BULK_ITEMS),
+                logDate: targetDate,
+                timezone,
+              },
+              snapshots
+            );
+            results.push(result.data);
+          }
+        }
+      }
+
+      const newItems = results.reduce((sum, r) => sum + r.newItems, 0);
+      const updatedItems = results.reduce((sum, r) => sum + r.updatedItems, 0);
+
+      return {
+        success: true,
+        data: {
+          sourceDate,
+          mealType: data.mealType,
+          results,
+          totalItems: newItems + updatedItems,
+          newItems,
+          updatedItems,
+          skippedItems,
+        },
+        message: `Successfully copied ${sourceLogs.length} food items to ${targetDates.length} day(s) (${newItems} new, ${updatedItems} updated, ${skippedItems.length} skipped)`,
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to copy food logs: ${error.message}`);
+      }
+      throw new Error('Failed to copy food logs');
+    }
+  }
+
+  public async getFoodLogById(
+    id: string,
+    userId?: string
+  ): Promise<IFoodLog | null> {
+    try {
+      const foodLog = await FoodLog.findOne(
+        OwnershipUtils.buildOwnerFilter(id, userId)
+      )
         .populate({
           path: 'meal',
           select: 'name calories protein fat carbs quantity quantityUnit emoji',
@@ -325,18 +702,81 @@ export class FoodLogService {
 
   public async updateFoodLog(
     id: string,
-    data: UpdateFoodLogRequest
+    data: UpdateFoodLogRequest,
+    userId?: string
   ): Promise<IFoodLog | null> {
     try {
-      const updateData: any = { ...data };
+      // Ownership and the nutrition snapshot can never be set directly, and
+      // servings and amounts are converted below
+      const updateData = UpdateUtils.pickFields(data, FOOD_LOG_UPDATE_FIELDS);
+
+      const existingLog = await FoodLog.findOne(
+        OwnershipUtils.buildOwnerFilter(id, userId)
+      )
+        .select('user meal nutrition')
+        .lean();
+      if (!existingLog) {
+        return null;
+      }
+
+      // Keep logDate normalized to the start of the owner's local day
+      if (updateData.logDate !== undefined) {
+        const timezone = await this.resolveTimezone(
+          existingLog.user.toString(),
+          data.timezone
+        );
+        updateData.logDate = TimezoneUtils.startOfDay(
+          updateData.logDate,
+          timezone
+        );
+      }
+
+      // Switching to another meal takes a fresh snapshot of that meal
+      let reference: any = existingLog.nutrition;
+      if (updateData.meal) {
+        const meal = await Meal.findOne({
+          _id: updateData.meal,
+          ...this.usableMealsFilter(existingLog.user.toString()),
+        }).lean();
+        if (!meal) {
+          throw new Error('Meal not found');
+        }
+        updateData.nutrition = this.buildNutritionSnapshot(meal);
+        reference = meal;
+      }
+
+      // Amounts are converted against the meal the log points to
+      if (data.amount !== undefined) {
+        if (!reference) {
+          reference = await Meal.findById(existingLog.meal).lean();
+          if (!reference) {
+            throw new Error('Meal not found');
+          }
+        }
+        Object.assign(
+          updateData,
+          this.buildQuantityUpdate(
+            await this.resolveLogQuantity(reference, data)
+          )
+        );
+      } else if (data.servings !== undefined) {
+        Object.assign(
+          updateData,
+          this.buildQuantityUpdate({ servings: data.servings })
+        );
+      }
       if (updateData.notes) {
         updateData.notes = updateData.notes.trim();
       }
 
-      const updatedFoodLog = await FoodLog.findByIdAndUpdate(id, updateData, {
-        new: true,
-        runValidators: true,
-      })
+      const updatedFoodLog = await FoodLog.findOneAndUpdate(
+        OwnershipUtils.buildOwnerFilter(id, userId),
+        updateData,
+        {
+          new: true,
+          runValidators: true,
+        }
+      )
         .populate({
           path: 'meal',
           select: 'name calories protein fat carbs quantity quantityUnit emoji',
@@ -357,15 +797,152 @@ export class FoodLogService {
     }
   }
 
-  public async deleteFoodLog(id: string): Promise<boolean> {
+  // Move a log to the trash; it can be restored until it is purged
+  public async deleteFoodLog(id: string, userId?: string): Promise<boolean> {
     try {
-      const result = await FoodLog.findByIdAndDelete(id);
+      const result = await FoodLog.findOneAndUpdate(
+        OwnershipUtils.buildOwnerFilter(id, userId),
+        { $set: { deletedAt: Date.now() } }
+      );
       return !!result;
     } catch (_) {
       throw new Error('Failed to delete food log');
     }
   }
 
+  public async restoreFoodLog(
+    id: string,
+    userId?: string
+  ): Promise<IFoodLog | null> {
+    try {
+      const result = await FoodLog.findOneAndUpdate(
+        {
+          ...OwnershipUtils.buildOwnerFilter(id, userId),
+          deletedAt: { $ne: null },
+        },
+        { $unset: { deletedAt: 1 } }
+      );
+      if (!result) {
+        return null;
+      }
+
+      return await this.getFoodLogById(id, userId);
+    } catch (_) {
+      throw new Error('Failed to restore food log');
+    }
+  }
+
+  // Trashed logs of a user, most recently deleted first. `purgeAt` is when
+  // each log will be removed for good.
+  public async getDeletedFoodLogs(
+    userId: string,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{
+    data: (IFoodLog & { purgeAt: number })[];
+    total: number;
+    page: number;
+    pages: number;
+  }> {
+    try {
+      const skip = (page - 1) * limit;
+      const query = { user: userId, deletedAt: { $ne: null } };
+      const retentionMs = FOOD_LOG_RETENTION_DAYS * DAY_IN_MS;
+
+      const [logs, total] = await Promise.all([
+        FoodLog.find(query)
+          .populate('meal', 'name calories protein fat carbs quantity emoji')
+          .sort({ deletedAt: -1 })
+          .skip(skip)
+          .limit(limit)
+          .lean(),
+        FoodLog.countDocuments(query),
+      ]);
+
+      const data = logs.map((log: any) => ({
+        ...log,
+        purgeAt: log.deletedAt + retentionMs,
+      }));
+
+      return {
+        data,
+        total,
+        page,
+        pages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch deleted food logs: ${error.message}`);
+      }
+      throw new Error('Failed to fetch deleted food logs');
+    }
+  }
+
+  // Permanently remove logs that have been in the trash longer than the
+  // retention period
+  public async purgeDeletedFoodLogs(
+    retentionDays: number = FOOD_LOG_RETENTION_DAYS
+  ): Promise<number> {
+    try {
+      const cutoff = Date.now() - retentionDays * DAY_IN_MS;
+      const result = await FoodLog.deleteMany({
+        deletedAt: { $ne: null, $lte: cutoff },
+      });
+      return result.deletedCount;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to purge deleted food logs: ${error.message}`);
+      }
+      throw new Error('Failed to purge deleted food logs');
+    }
+  }
+
+  public async resyncFoodLogNutrition(
+    id: string,
+    userId?: string
+  ): Promise<IFoodLog | null> {
+    try {
+      const foodLog = await FoodLog.findOne(
+        OwnershipUtils.buildOwnerFilter(id, userId)
+      );
+      if (!foodLog) {
+        return null;
+      }
+
+      const meal = await Meal.findById(foodLog.meal).lean();
+      if (!meal) {
+        throw new Error('Meal not found');
+      }
+
+      foodLog.nutrition = this.buildNutritionSnapshot(meal);
+      await foodLog.save();
+
+      return await this.getFoodLogById(id, userId);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(
+          `Failed to resync food log nutrition: ${error.message}`
+        );
+      }
+      throw new Error('Failed to resync food log nutrition');
+    }
+  }
+
+  // Give logs of a meal that predate nutrition snapshots one, so they keep
+  // their nutrition once the meal itself is deleted. Trashed logs are
+  // included since they may still be restored.
+  public async backfillNutritionSnapshots(meal: any): Promise<number> {
+    try {
+      const result = await FoodLog.updateMany(
+        { meal: meal._id, nutrition: { $exists: false } },
+        { $set: { nutrition: this.buildNutritionSnapshot(meal) } }
+      ).setOptions({ withDeleted: true });
+      return result.modifiedCount;
+    } catch (_) {
+      throw new Error('Failed to backfill nutrition snapshots');
+    }
+  }
+
   public async getFoodLogsByUser(
     userId: string,
     page: number = 1,
@@ -488,14 +1065,20 @@ export class FoodLogService {
 
   public async getDailyNutritionSummary(
     userId: string,
-    date: number
+    date: number,
+    timezone?: string
   ): Promise<DailyNutritionSummary> {
     try {
       const summary = await (FoodLog as any).getDailyNutritionSummary(
         userId,
-        date
+        date,
+        await this.resolveTimezone(userId, timezone)
+      );
+      const [summaryWithGoal] = await this.nutritionGoalService.applyGoals(
+        userId,
+        [summary]
       );
-      return summary;
+      return summaryWithGoal;
     } catch (error) {
       if (error instanceof Error) {
         throw new Error(
@@ -509,15 +1092,24 @@ export class FoodLogService {
   public async getNutritionSummaryRange(
     userId: string,
     startDate: number,
-    endDate: number
+    endDate: number,
+    timezone?: string,
+    granularity: NutritionGranularity = 'day'
   ): Promise<DailyNutritionSummary[]> {
     try {
       const summaries = await (FoodLog as any).getNutritionSummaryRange(
         userId,
         startDate,
-        endDate
+        endDate,
+        await this.resolveTimezone(userId, timezone),
+        granularity
       );
-      return summaries;
+
+      // Goals are daily targets, so adherence only applies to daily buckets
+      if (granularity !== 'day') {
+        return summaries;
+      }
+      return await this.nutritionGoalService.applyGoals(userId, summaries);
     } catch (error) {
       if (error instanceof Error) {
         throw new Error(
@@ -601,6 +1193,67 @@ export class FoodLogService {
     };
   }
 
+  // Stream every log of a user in a date range (all logs by default), oldest
+  // first. A cursor is used so large diaries are never loaded at once.
+  public async *exportFoodLogs(
+    userId: string,
+    options: FoodLogExportOptions = {}
+  ): AsyncGenerator<FoodLogExportRow> {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw new Error('Invalid user ID');
+    }
+
+    const timezone = await this.resolveTimezone(userId, options.timezone);
+    const query: any = { user: userId };
+    if (options.startDate !== undefined || options.endDate !== undefined) {
+      query.logDate = {};
+      if (options.startDate !== undefined) {
+        query.logDate.$gte = TimezoneUtils.startOfDay(
+          options.startDate,
+          timezone
+        );
+      }
+      if (options.endDate !== undefined) {
+        query.logDate.$lte = TimezoneUtils.endOfDay(options.endDate, timezone);
+      }
+    }
+
+    const cursor = FoodLog.find(query)
+      .populate('meal', 'name calories protein fat carbs')
+      .populate('quantityUnit', 'shortName')
+      .sort({ logDate: 1, loggedAt: 1 })
+      .lean()
+      .cursor();
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    try {
+      for await (const log of cursor as AsyncIterable<any>) {
+        // Snapshot nutrition, or the meal for logs that predate snapshots
+        const nutrition = log.nutrition || log.meal || {};
+        yield {
+          id: log._id.toString(),
+          date: TimezoneUtils.toDateKey(log.logDate, timezone),
+          mealType: log.mealType,
+          meal: nutrition.name || log.meal?.name || '',
+          servings: log.servings,
+          amount: log.amount,
+          unit: log.quantityUnit?.shortName,
+          calories: round((nutrition.calories || 0) * log.servings),
+          protein: round((nutrition.protein || 0) * log.servings),
+          fat: round((nutrition.fat || 0) * log.servings),
+          carbs: round((nutrition.carbs || 0) * log.servings),
+          notes: log.notes,
+          logDate: log.logDate,
+          loggedAt: log.loggedAt,
+        };
+      }
+    } finally {
+      // Also runs when the consumer stops early, e.g. the client went away
+      await cursor.close();
+    }
+  }
+
   public async getRecentFoodLogs(
     userId: string,
     limit: number = 5
@@ -625,90 +1278,381 @@ export class FoodLogService {
     }
   }
 
-  public async getFoodLogStats(userId: string): Promise<any> {
+  public async getFoodLogStats(
+    userId: string,
+    options: {
+      startDate?: number;
+      endDate?: number;
+      topMeals?: number;
+      timezone?: string;
+    } = {}
+  ): Promise<FoodLogStats> {
     try {
-      const stats = await FoodLog.aggregate([
-        { $match: { user: userId } },
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        throw new Error('Invalid user ID');
+      }
+
+      const timezone = await this.resolveTimezone(userId, options.timezone);
+      const now = Date.now();
+
+      // Default window is the last 30 local days, including today
+      const windowStart = options.startDate
+        ? TimezoneUtils.startOfDay(options.startDate, timezone)
+        : TimezoneUtils.addDays(now, -29, timezone);
+      const windowEnd = options.endDate
+        ? TimezoneUtils.endOfDay(options.endDate, timezone)
+        : TimezoneUtils.endOfDay(now, timezone);
+
+      const inWindow = { $match: { inWindow: true } };
+
+      // Sum of servings-scaled nutrition for a group of logs
+      const totalsGroup = {
+        _id: null,
+        totalLogs: { $sum: 1 },
+        totalServings: { $sum: '$servings' },
+        totalCalories: { $sum: '$calories' },
+        totalProtein: { $sum: '$protein' },
+        totalFat: { $sum: '$fat' },
+        totalCarbs: { $sum: '$carbs' },
+        firstLogDate: { $min: '$logDate' },
+        lastLogDate: { $max: '$logDate' },
+      };
+
+      // Per-day totals averaged over the days that have at least one log
+      const dailyAverageStages = [
+        {
+          $group: {
+            _id: '$day',
+            calories: { $sum: '$calories' },
+            protein: { $sum: '$protein' },
+            fat: { $sum: '$fat' },
+            carbs: { $sum: '$carbs' },
+          },
+        },
         {
           $group: {
             _id: null,
-            totalLogs: { $sum: 1 },
-            totalCalories: {
-              $sum: { $multiply: ['$servings', '$meal.calories'] },
+            loggingDays: { $sum: 1 },
+            averageDailyCalories: { $avg: '$calories' },
+            averageDailyProtein: { $avg: '$protein' },
+            averageDailyFat: { $avg: '$fat' },
+            averageDailyCarbs: { $avg: '$carbs' },
+          },
+        },
+      ];
+
+      const emptyTotals = {
+        totalLogs: 0,
+        totalServings: 0,
+        totalCalories: 0,
+        totalProtein: 0,
+        totalFat: 0,
+        totalCarbs: 0,
+        loggingDays: 0,
+        averageDailyCalories: 0,
+        averageDailyProtein: 0,
+        averageDailyFat: 0,
+        averageDailyCarbs: 0,
+      };
+
+      const [stats] = await FoodLog.aggregate([
+        { $match: { user: new mongoose.Types.ObjectId(userId) } },
+        ...logNutritionStages(),
+        {
+          $addFields: {
+            day: {
+              $dateToString: {
+                format: '%Y-%m-%d',
+                date: { $toDate: '$logDate' },
+                timezone,
+              },
             },
-            totalProtein: {
-              $sum: { $multiply: ['$servings', '$meal.protein'] },
+            inWindow: {
+              $and: [
+                { $gte: ['$logDate', windowStart] },
+                { $lte: ['$logDate', windowEnd] },
+              ],
             },
-            totalFat: { $sum: { $multiply: ['$servings', '$meal.fat'] } },
-            totalCarbs: { $sum: { $multiply: ['$servings', '$meal.carbs'] } },
-            averageServings: { $avg: '$servings' },
-            mealTypeBreakdown: {
-              $push: {
-                mealType: '$mealType',
-                servings: '$servings',
+          },
+        },
+        {
+          $facet: {
+            lifetimeTotals: [{ $group: totalsGroup }],
+            lifetimeDaily: dailyAverageStages,
+            windowTotals: [inWindow, { $group: totalsGroup }],
+            windowDaily: [inWindow, ...dailyAverageStages],
+            mostLoggedMeals: [
+              inWindow,
+              {
+                $group: {
+                  _id: '$meal',
+                  name: { $last: '$source.name' },
+                  count: { $sum: 1 },
+                  totalServings: { $sum: '$servings' },
+                  totalCalories: { $sum: '$calories' },
+                },
+              },
+              { $sort: { count: -1, totalCalories: -1 } },
+              { $limit: options.topMeals || 5 },
+              {
+                $project: {
+                  _id: 0,
+                  meal: '$_id',
+                  name: 1,
+                  count: 1,
+                  totalServings: 1,
+                  totalCalories: 1,
+                },
               },
+            ],
+            mealTypes: [
+              inWindow,
+              {
+                $group: {
+                  _id: '$mealType',
+                  logs: { $sum: 1 },
+                  calories: { $sum: '$calories' },
+                },
+              },
+            ],
+          },
+        },
+        {
+          $project: {
+            lifetime: {
+              $mergeObjects: [
+                emptyTotals,
+                { $arrayElemAt: ['$lifetimeTotals', 0] },
+                { $arrayElemAt: ['$lifetimeDaily', 0] },
+              ],
             },
+            window: {
+              $mergeObjects: [
+                emptyTotals,
+                { $arrayElemAt: ['$windowTotals', 0] },
+                { $arrayElemAt: ['$windowDaily', 0] },
+                { startDate: windowStart, endDate: windowEnd },
+              ],
+            },
+            mostLoggedMeals: 1,
+            mealTypes: 1,
           },
         },
+        {
+          $project: {
+            lifetime: 1,
+            window: 1,
+            mostLoggedMeals: 1,
+            // Share of window calories per meal type, always all four types
+            mealTypeShare: {
+              $map: {
+                input: ['breakfast', 'lunch', 'dinner', 'snack'],
+                as: 'mealType',
+                in: {
+                  $let: {
+                    vars: {
+                      entry: {
+                        $arrayElemAt: [
+                          {
+                            $filter: {
+                              input: '$mealTypes',
+                              cond: { $eq: ['$$this._id', '$$mealType'] },
+                            },
+                          },
+                          0,
+                        ],
+                      },
+                    },
+                    in: {
+                      mealType: '$$mealType',
+                      logs: { $ifNull: ['$$entry.logs', 0] },
+                      calories: { $ifNull: ['$$entry.calories', 0] },
+                      percentage: {
+                        $cond: [
+                          { $gt: ['$window.totalCalories', 0] },
+                          {
+                            $round: [
+                              {
+                                $multiply: [
+                                  {
+                                    $divide: [
+                                      { $ifNull: ['$$entry.calories', 0] },
+                                      '$window.totalCalories',
+                                    ],
+                                  },
+                                  100,
+                                ],
+                              },
+                              1,
+                            ],
+                          },
+                          0,
+                        ],
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        { $unset: ['lifetime._id', 'window._id'] },
       ]);
 
-      if (stats.length === 0) {
-        return {
-          totalLogs: 0,
-          totalCalories: 0,
-          totalProtein: 0,
-          totalFat: 0,
-          totalCarbs: 0,
-          averageServings: 0,
-          mealTypeBreakdown: {
-            breakfast: 0,
-            lunch: 0,
-            dinner: 0,
-            snack: 0,
-          },
-        };
+      return stats;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to get food log statistics: ${error.message}`);
       }
+      throw new Error('Failed to get food log statistics');
+    }
+  }
 
-      const result = stats[0];
-      const mealTypeBreakdown = {
-        breakfast: 0,
-        lunch: 0,
-        dinner: 0,
-        snack: 0,
+  public async getLoggingStreaks(
+    userId: string,
+    options: {
+      requireMealTypes?: ('breakfast' | 'lunch' | 'dinner' | 'snack')[];
+      minCalories?: number;
+      weeks?: number;
+      timezone?: string;
+    } = {}
+  ): Promise<LoggingStreaks> {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        throw new Error('Invalid user ID');
+      }
+
+      const timezone = await this.resolveTimezone(userId, options.timezone);
+      const criteria = {
+        requireMealTypes: options.requireMealTypes || [],
+        minCalories: options.minCalories || 0,
       };
+      const weeks = options.weeks || 12;
+
+      // Local days that meet the criteria, oldest first
+      const days: { _id: string }[] = await FoodLog.aggregate([
+        { $match: { user: new mongoose.Types.ObjectId(userId) } },
+        // Nutrition is only needed to check the calorie floor
+        ...(criteria.minCalories > 0 ? logNutritionStages() : []),
+        {
+          $group: {
+            _id: {
+              $dateToString: {
+                format: '%Y-%m-%d',
+                date: { $toDate: '$logDate' },
+                timezone,
+              },
+            },
+            calories: { $sum: { $ifNull: ['$calories', 0] } },
+            mealTypes: { $addToSet: '$mealType' },
+          },
+        },
+        {
+          $match: {
+            calories: { $gte: criteria.minCalories },
+            ...(criteria.requireMealTypes.length > 0 && {
+              mealTypes: { $all: criteria.requireMealTypes },
+            }),
+          },
+        },
+        { $sort: { _id: 1 } },
+        { $project: { _id: 1 } },
+      ]);
+
+      const dayNumbers = days.map(day => this.toDayNumber(day._id));
+      const loggedDays = new Set(dayNumbers);
+
+      // Longest run of consecutive days
+      let longestStreak = 0;
+      let longestStreakEnd: number | null = null;
+      let run = 0;
+      dayNumbers.forEach((dayNumber, index) => {
+        run =
+          index > 0 && dayNumbers[index - 1] === dayNumber - 1 ? run + 1 : 1;
+        if (run > longestStreak) {
+          longestStreak = run;
+          longestStreakEnd = dayNumber;
+        }
+      });
+
+      // The current streak is still alive if today has not been logged yet
+      const today = this.toDayNumber(
+        TimezoneUtils.toDateKey(Date.now(), timezone)
+      );
+      let streakDay = loggedDays.has(today) ? today : today - 1;
+      let currentStreak = 0;
+      while (loggedDays.has(streakDay)) {
+        currentStreak += 1;
+        streakDay -= 1;
+      }
 
-      result.mealTypeBreakdown.forEach((item: any) => {
-        if (
-          Object.prototype.hasOwnProperty.call(mealTypeBreakdown, item.mealType)
-        ) {
-          mealTypeBreakdown[item.mealType as keyof typeof mealTypeBreakdown] +=
-            item.servings;
+      // Days logged in each of the last weeks (Monday to Sunday), oldest first
+      const daysSinceMonday = (new Date(today * DAY_IN_MS).getUTCDay() + 6) % 7;
+      const currentWeekStart = today - daysSinceMonday;
+      const weeklyConsistency = Array.from({ length: weeks }, (_, index) => {
+        const weekStart = currentWeekStart - (weeks - 1 - index) * 7;
+        let daysLogged = 0;
+        for (let day = weekStart; day < weekStart + 7; day++) {
+          if (loggedDays.has(day)) daysLogged += 1;
         }
+        return { weekStart: this.fromDayNumber(weekStart), daysLogged };
       });
 
+      const averageDaysPerWeek =
+        weeklyConsistency.reduce((sum, week) => sum + week.daysLogged, 0) /
+        weeks;
+
       return {
-        totalLogs: result.totalLogs,
-        totalCalories: result.totalCalories || 0,
-        totalProtein: result.totalProtein || 0,
-        totalFat: result.totalFat || 0,
-        totalCarbs: result.totalCarbs || 0,
-        averageServings: result.averageServings || 0,
-        mealTypeBreakdown,
+        criteria,
+        currentStreak,
+        longestStreak,
+        longestStreakStart:
+          longestStreakEnd !== null
+            ? this.fromDayNumber(longestStreakEnd - longestStreak + 1)
+            : null,
+        longestStreakEnd:
+          longestStreakEnd !== null
+            ? this.fromDayNumber(longestStreakEnd)
+            : null,
+        lastLoggedDate: days.length > 0 ? days[days.length - 1]._id : null,
+        totalLoggedDays: days.length,
+        weeklyConsistency,
+        averageDaysPerWeek: Math.round(averageDaysPerWeek * 10) / 10,
       };
-    } catch (_) {
-      throw new Error('Failed to get food log statistics');
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to get logging streaks: ${error.message}`);
+      }
+      throw new Error('Failed to get logging streaks');
     }
   }
 
   public async getWeeklyNutritionTrend(
     userId: string,
-    weeks: number = 4
+    weeks: number = 4,
+    timezone?: string,
+    granularity: NutritionGranularity = 'week'
   ): Promise<DailyNutritionSummary[]> {
     try {
+      const resolvedTimezone = await this.resolveTimezone(userId, timezone);
       const endDate = Date.now();
-      const startDate = Date.now() - weeks * 7 * 24 * 60 * 60 * 1000;
 
-      return await this.getNutritionSummaryRange(userId, startDate, endDate);
+      // Start on the Monday of the oldest week so every bucket is a full week
+      const { weekday } = TimezoneUtils.getDateParts(endDate, resolvedTimezone);
+      const daysSinceMonday = (weekday + 6) % 7;
+      const startDate = TimezoneUtils.addDays(
+        endDate,
+        -(daysSinceMonday + (weeks - 1) * 7),
+        resolvedTimezone
+      );
+
+      return await this.getNutritionSummaryRange(
+        userId,
+        startDate,
+        endDate,
+        resolvedTimezone,
+        granularity
+      );
     } catch (_) {
       throw new Error('Failed to get weekly nutrition trend');
     }
@@ -716,18 +1660,32 @@ export class FoodLogService {
 
   public async getMonthlyNutritionTrend(
     userId: string,
-    months: number = 6
+    months: number = 6,
+    timezone?: string,
+    granularity: NutritionGranularity = 'month'
   ): Promise<DailyNutritionSummary[]> {
     try {
+      const resolvedTimezone = await this.resolveTimezone(userId, timezone);
       const endDate = Date.now();
-      const startDate = new Date();
-      startDate.setMonth(startDate.getMonth() - months);
-      const startDateEpoch = startDate.getTime();
+
+      // Start on the first of the oldest month so every bucket is a full month
+      const { year, month } = TimezoneUtils.getDateParts(
+        endDate,
+        resolvedTimezone
+      );
+      const startDate = TimezoneUtils.zonedMidnight(
+        year,
+        month - (months - 1),
+        1,
+        resolvedTimezone
+      );
 
       return await this.getNutritionSummaryRange(
         userId,
-        startDateEpoch,
-        endDate
+        startDate,
+        endDate,
+        resolvedTimezone,
+        granularity
       );
     } catch (_) {
       throw new Error('Failed to get monthly nutrition trend');
@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import {
+  MAIL_TRANSPORTS,
+  MailMessage,
+  MailTransport,
+  MailTransportName,
+  OutgoingMail,
+} from '../models/Mail';
+import { IUser } from '../models/UserSchema';
+
+const DEFAULT_MAIL_FROM = 'Bite Count <no-reply@bitecount.local>';
+const DEFAULT_APP_URL = 'http://localhost:3000';
+
+// Sends mail through an SMTP server
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || '', 10) || 587;
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE
+        ? process.env.SMTP_SECURE === 'true'
+        : port === 465,
+      ...(process.env.SMTP_USER && {
+        auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS },
+      }),
+    });
+  }
+
+  public async send(mail: OutgoingMail): Promise<void> {
+    await this.transporter.sendMail(mail);
+  }
+}
+
+// Writes every message as a JSON file to a directory instead of sending it
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  public async send(mail: OutgoingMail): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    await fs.promises.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...mail, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+// Keeps sent messages in memory, newest last
+export class MemoryMailTransport implements MailTransport {
+  public messages: OutgoingMail[] = [];
+
+  public async send(mail: OutgoingMail): Promise<void> {
+    this.messages.push(mail);
+  }
+
+  public clear(): void {
+    this.messages = [];
+  }
+}
+
+let defaultTransport: MailTransport | null = null;
+
+// Transport chosen by MAIL_TRANSPORT, shared by every mail service. Defaults
+// to smtp when SMTP_HOST is set and file otherwise.
+export const getMailTransport = (): MailTransport => {
+  if (!defaultTransport) {
+    const name = (process.env.MAIL_TRANSPORT ||
+      (process.env.SMTP_HOST ? 'smtp' : 'file')) as MailTransportName;
+
+    switch (name) {
+      case 'smtp':
+        defaultTransport = new SmtpMailTransport();
+        break;
+      case 'file':
+        defaultTransport = new FileMailTransport(
+          process.env.MAIL_OUTBOX_DIR || 'mail-outbox'
+        );
+        break;
+      case 'memory':
+        defaultTransport = new MemoryMailTransport();
+        break;
+      default:
+        throw new Error(
+          `MAIL_TRANSPORT must be one of: ${MAIL_TRANSPORTS.join(', ')}`
+        );
+    }
+  }
+  return defaultTransport;
+};
+
+export class MailService {
+  private transport: MailTransport;
+
+  constructor(transport?: MailTransport) {
+    this.transport = transport || getMailTransport();
+  }
+
+  // Helper method to build a link to the client app
+  private buildAppLink(pathName: string, token: string): string {
+    const appUrl = (process.env.APP_URL || DEFAULT_APP_URL).replace(/\/+$/, '');
+    return `${appUrl}${pathName}?token=${encodeURIComponent(token)}`;
+  }
+
+  public async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({
+        from: process.env.MAIL_FROM || DEFAULT_MAIL_FROM,
+        ...message,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to send mail: ${error.message}`);
+      }
+      throw new Error('Failed to send mail');
+    }
+  }
+
+  public async sendVerificationEmail(
+    user: IUser,
+    token: string,
+    expiresInHours: number
+  ): Promise<void> {
+    const link = this.buildAppLink('/verify-email', token);
+    await this.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text:
+        `Hi ${user.name},\n\n` +
+        `Please confirm your email address by opening this link:\n${link}\n\n` +
+        `Or enter this code in the app: ${token}\n\n` +
+        `The link expires in ${expiresInHours} hours. ` +
+        `If you did not create an account, you can ignore this email.\n`,
+    });
+  }
+
+  public async sendPasswordResetEmail(
+    user: IUser,
+    token: string,
+    expiresInMinutes: number
+  ): Promise<void> {
+    const link = this.buildAppLink('/reset-password', token);
+    await this.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text:
+        `Hi ${user.name},\n\n` +
+        `Someone asked to reset the password of your account. ` +
+        `To choose a new password, open this link:\n${link}\n\n` +
+        `Or enter this code in the app: ${token}\n\n` +
+        `The link expires in ${expiresInMinutes} minutes. ` +
+        `If you did not ask for a reset, you can ignore this email.\n`,
+    });
+  }
+}
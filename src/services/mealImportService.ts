@@ -0,0 +1,706 @@
+import fs from 'fs';
+import {
+  ImportMealsOptions,
+  ImportMealsResult,
+  MealImportFormat,
+  MealImportIssue,
+  MealImportRecord,
+} from '../models/MealImport';
+import { MealViewer } from '../models/Meal';
+import Meal, { buildMealVisibilityFilter } from '../models/MealSchema';
+import QuantityUnit, { IQuantityUnit } from '../models/QuantityUnitSchema';
+import { CsvUtils } from '../utils/csv';
+import { JsonStreamUtils } from '../utils/jsonStream';
+import {
+  MICRONUTRIENTS,
+  MICRONUTRIENT_KEYS,
+  MicronutrientKey,
+} from '../utils/nutrients';
+import { UnitConversionUtils } from '../utils/units';
+import { MealService } from './mealService';
+import { QuantityUnitService } from './quantityUnitService';
+
+const ISSUE_LIMIT = 100;
+
+// Existing meals are looked up in batches of this many names/IDs
+const LOOKUP_BATCH_SIZE = 1000;
+
+// Foods are validated and saved in batches of this many, files read from
+// disk are never held in memory as a whole
+const IMPORT_BATCH_SIZE = 1000;
+
+// Bytes read from the start of a file to detect its format
+const FORMAT_SNIFF_BYTES = 64 * 1024;
+
+// Food lists of the FoodData Central JSON downloads
+const USDA_FOOD_LISTS = [
+  'FoundationFoods',
+  'SRLegacyFoods',
+  'SurveyFoods',
+  'BrandedFoods',
+];
+
+// FoodData Central nutrient numbers for each meal field, in order of
+// preference (energy falls back to the Atwater factors Foundation foods use)
+const USDA_NUTRIENTS: { [field: string]: string[] } = {
+  calories: ['208', '957', '958'],
+  protein: ['203'],
+  fat: ['204'],
+  carbs: ['205'],
+  fiber: ['291'],
+  sugar: ['269'],
+  saturatedFat: ['606'],
+  sodium: ['307'],
+  cholesterol: ['601'],
+  potassium: ['306'],
+  vitaminA: ['320'],
+  vitaminC: ['401'],
+  vitaminD: ['328'],
+  vitaminB12: ['418'],
+  calcium: ['301'],
+  iron: ['303'],
+  magnesium: ['304'],
+  zinc: ['309'],
+};
+
+// Grams in one unit of the mass units nutrient amounts are given in
+const NUTRIENT_UNIT_GRAMS: { [unit: string]: number } = {
+  g: 1,
+  mg: 0.001,
+  mcg: 0.000001,
+  ug: 0.000001,
+  µg: 0.000001,
+};
+
+// Names of the well-known units created on demand
+const UNIT_NAMES: { [shortName: string]: string } = {
+  g: 'Gram',
+  kg: 'Kilogram',
+  mg: 'Milligram',
+  oz: 'Ounce',
+  lb: 'Pound',
+  ml: 'Millilitre',
+  l: 'Litre',
+  tsp: 'Teaspoon',
+  tbsp: 'Tablespoon',
+  cup: 'Cup',
+  pc: 'Piece',
+};
+
+// Fields compared to decide whether an existing meal needs an update
+const COMPARED_FIELDS = [
+  'name',
+  'calories',
+  'protein',
+  'fat',
+  'carbs',
+  ...MICRONUTRIENT_KEYS,
+  'quantity',
+  'density',
+] as const;
+
+// A record that passed validation, with its unit short name normalized
+interface ValidRecord {
+  index: number;
+  data: MealImportRecord & { protein: number; quantity: number; unit: string };
+}
+
+// Progress of an import, carried from one batch to the next
+interface ImportState {
+  source: string;
+  dryRun: boolean;
+  viewer: MealViewer;
+  total: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  issues: MealImportIssue[];
+  unitsCreated: string[];
+  units: Map<string, IQuantityUnit | null>; // By short name
+  seen: Set<string>; // Source IDs and names imported so far
+}
+
+export class MealImportService {
+  private mealService: MealService;
+  private quantityUnitService: QuantityUnitService;
+
+  constructor() {
+    this.mealService = new MealService();
+    this.quantityUnitService = new QuantityUnitService();
+  }
+
+  // Helper method to guess the format of a file from its content
+  private detectFormat(content: string): MealImportFormat {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+      return 'csv';
+    }
+    return USDA_FOOD_LISTS.some(list => trimmed.includes(`"${list}"`))
+      ? 'usda'
+      : 'json';
+  }
+
+  // Helper method to read the nutrition of a FoodData Central food
+  private mapUsdaFood(food: any): MealImportRecord {
+    const amounts = new Map<string, { amount: number; unit: string }>();
+    (food.foodNutrients || []).forEach((entry: any) => {
+      const number = entry.nutrient?.number ?? entry.nutrientNumber;
+      const amount = entry.amount ?? entry.value;
+      if (number !== undefined && typeof amount === 'number') {
+        amounts.set(String(number), {
+          amount,
+          unit: String(entry.nutrient?.unitName ?? entry.unitName ?? '')
+            .trim()
+            .toLowerCase(),
+        });
+      }
+    });
+
+    const record: any = {
+      name: food.description,
+      sourceId: food.fdcId !== undefined ? String(food.fdcId) : undefined,
+      // Nutrients are per 100 g, or 100 ml for branded drinks
+      quantity: 100,
+      unit: ['ml', 'mlt'].includes(
+        String(food.servingSizeUnit || '').toLowerCase()
+      )
+        ? 'ml'
+        : 'g',
+    };
+
+    Object.entries(USDA_NUTRIENTS).forEach(([field, numbers]) => {
+      const found = numbers
+        .map(number => amounts.get(number))
+        .find(entry => entry !== undefined);
+      if (!found) {
+        return;
+      }
+      // Energy may also be listed in kJ under another number
+      if (field === 'calories' && found.unit && found.unit !== 'kcal') {
+        return;
+      }
+
+      let amount = found.amount;
+      const targetUnit = MICRONUTRIENTS[field as MicronutrientKey]?.unit;
+      if (
+        targetUnit &&
+        NUTRIENT_UNIT_GRAMS[found.unit] &&
+        found.unit !== targetUnit
+      ) {
+        const converted =
+          (amount * NUTRIENT_UNIT_GRAMS[found.unit]) /
+          NUTRIENT_UNIT_GRAMS[targetUnit];
+        amount = Math.round(converted * 10000) / 10000;
+      }
+      record[field] = amount;
+    });
+
+    return record;
+  }
+
+  // Helper method to match the header of a CSV file to record fields,
+  // case-insensitively. Unknown columns map to undefined.
+  private mapCsvHeader(header: string[]): (string | undefined)[] {
+    const fields = [
+      'name',
+      'sourceId',
+      'calories',
+      'protein',
+      'fat',
+      'carbs',
+      ...MICRONUTRIENT_KEYS,
+      'quantity',
+      'unit',
+      'density',
+    ];
+    return header.map(column =>
+      fields.find(field => field.toLowerCase() === column.trim().toLowerCase())
+    );
+  }
+
+  // Helper method to read one CSV row as a loosely typed record
+  private mapCsvRow(columns: (string | undefined)[], values: string[]): any {
+    const record: any = {};
+    columns.forEach((field, index) => {
+      const value = values[index]?.trim();
+      if (field && value) {
+        record[field] = value;
+      }
+    });
+    return record;
+  }
+
+  // Helper method to read the foods of a file as loosely typed records
+  private parseRecords(content: string, format: MealImportFormat): any[] {
+    if (format === 'csv') {
+      const [header = [], ...rows] = CsvUtils.parse(content);
+      const columns = this.mapCsvHeader(header);
+      return rows
+        .filter(values => values.some(value => value.trim() !== ''))
+        .map(values => this.mapCsvRow(columns, values));
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch (_) {
+      throw new Error('Invalid JSON file');
+    }
+
+    if (format === 'usda') {
+      const foods = Array.isArray(parsed)
+        ? parsed
+        : USDA_FOOD_LISTS.flatMap(list => parsed[list] || []);
+      return foods.map((food: any) => this.mapUsdaFood(food));
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON imports must be an array of foods');
+    }
+    return parsed;
+  }
+
+  // Helper method to validate a record and fill in defaults, returning the
+  // reason it cannot be imported otherwise
+  private validateRecord(raw: any): ValidRecord['data'] | string {
+    const toNumber = (value: any): number | undefined => {
+      if (value === undefined || value === null || value === '') {
+        return undefined;
+      }
+      const number = typeof value === 'number' ? value : Number(value);
+      return isNaN(number) ? NaN : number;
+    };
+
+    const name =
+      typeof raw?.name === 'string'
+        ? raw.name.trim().replace(/\s+/g, ' ').slice(0, 100).trim()
+        : '';
+    if (name.length < 2) {
+      return 'Name must be at least 2 characters long';
+    }
+
+    const calories = toNumber(raw.calories);
+    if (calories === undefined || isNaN(calories)) {
+      return 'Calories are required';
+    }
+    if (calories < 0 || calories > 10000) {
+      return 'Calories must be between 0 and 10000';
+    }
+
+    const record: any = {
+      name,
+      calories,
+      protein: 0,
+      quantity: 100,
+      unit: 'g',
+    };
+    if (raw.sourceId !== undefined && raw.sourceId !== '') {
+      record.sourceId = String(raw.sourceId).trim();
+    }
+
+    for (const field of ['protein', 'fat', 'carbs'] as const) {
+      const value = toNumber(raw[field]);
+      if (value === undefined) {
+        continue;
+      }
+      if (isNaN(value) || value < 0 || value > 1000) {
+        return `${field.charAt(0).toUpperCase() + field.slice(1)} must be between 0 and 1000`;
+      }
+      record[field] = value;
+    }
+
+    // Out of range micronutrients are dropped rather than failing the food
+    MICRONUTRIENT_KEYS.forEach(key => {
+      const value = toNumber(raw[key]);
+      if (
+        value !== undefined &&
+        !isNaN(value) &&
+        value >= 0 &&
+        value <= MICRONUTRIENTS[key].max
+      ) {
+        record[key] = value;
+      }
+    });
+
+    const quantity = toNumber(raw.quantity);
+    if (quantity !== undefined) {
+      if (isNaN(quantity) || quantity < 0.01 || quantity > 10000) {
+        return 'Quantity must be between 0.01 and 10000';
+      }
+      record.quantity = quantity;
+    }
+
+    if (typeof raw.unit === 'string' && raw.unit.trim()) {
+      record.unit = raw.unit.trim().toLowerCase();
+    }
+
+    const density = toNumber(raw.density);
+    if (density !== undefined) {
+      if (isNaN(density) || density <= 0) {
+        return 'Density must be greater than 0';
+      }
+      record.density = density;
+    }
+
+    return record;
+  }
+
+  // Helper method to resolve quantity units by short name, creating the
+  // well-known ones that do not exist yet. Unknown units map to null.
+  private async resolveUnits(
+    shortNames: string[],
+    dryRun: boolean,
+    unitsCreated: string[]
+  ): Promise<Map<string, IQuantityUnit | null>> {
+    const existing = await QuantityUnit.find({
+      shortName: { $in: shortNames },
+      isActive: { $ne: false },
+    })
+      .collation({ locale: 'en', strength: 2 })
+      .lean();
+
+    const units = new Map<string, IQuantityUnit | null>();
+    for (const shortName of shortNames) {
+      const unit = existing.find(u => u.shortName.toLowerCase() === shortName);
+      if (unit) {
+        units.set(shortName, unit);
+        continue;
+      }
+      if (!UnitConversionUtils.getKnownConversion(shortName)) {
+        units.set(shortName, null);
+        continue;
+      }
+
+      unitsCreated.push(shortName);
+      const massOrVolume = ['g', 'ml'].includes(shortName);
+      const data = {
+        name: UNIT_NAMES[shortName] || shortName,
+        shortName,
+        defaultValue: massOrVolume ? 100 : 1,
+        incrementValue: massOrVolume ? 10 : 1,
+      };
+      units.set(
+        shortName,
+        dryRun
+          ? (data as IQuantityUnit)
+          : await this.quantityUnitService.createQuantityUnit(data)
+      );
+    }
+    return units;
+  }
+
+  // Helper method to find the global meals an import may update: by source
+  // ID within the source, or by name for foods without an ID
+  private async findExistingMeals(
+    source: string,
+    records: ValidRecord[]
+  ): Promise<{ bySourceId: Map<string, any>; byName: Map<string, any> }> {
+    const globalMeals = buildMealVisibilityFilter(undefined, 'global', true);
+    const sourceIds = records
+      .map(({ data }) => data.sourceId)
+      .filter((id): id is string => !!id);
+    const names = records
+      .filter(({ data }) => !data.sourceId)
+      .map(({ data }) => data.name);
+
+    const bySourceId = new Map<string, any>();
+    const byName = new Map<string, any>();
+    for (let i = 0; i < sourceIds.length; i += LOOKUP_BATCH_SIZE) {
+      const meals = await Meal.find({
+        ...globalMeals,
+        source,
+        sourceId: { $in: sourceIds.slice(i, i + LOOKUP_BATCH_SIZE) },
+      }).lean();
+      meals.forEach(meal => bySourceId.set(meal.sourceId as string, meal));
+    }
+    for (let i = 0; i < names.length; i += LOOKUP_BATCH_SIZE) {
+      // Only meals of the same source, so hand-curated meals that share a
+      // name are never overwritten
+      const meals = await Meal.find({
+        ...globalMeals,
+        source,
+        name: { $in: names.slice(i, i + LOOKUP_BATCH_SIZE) },
+      })
+        .collation({ locale: 'en', strength: 2 })
+        .lean();
+      meals.forEach(meal => byName.set(meal.name.toLowerCase(), meal));
+    }
+    return { bySourceId, byName };
+  }
+
+  // Helper method to read the start of a file, enough to detect its format
+  private async readFileStart(filePath: string): Promise<string> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const { buffer, bytesRead } = await handle.read(
+        Buffer.alloc(FORMAT_SNIFF_BYTES),
+        0,
+        FORMAT_SNIFF_BYTES,
+        0
+      );
+      return buffer.toString('utf8', 0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // Helper method to read the foods of a file from disk one at a time
+  private async *streamRecords(
+    filePath: string,
+    format: MealImportFormat
+  ): AsyncGenerator<any> {
+    const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+    try {
+      if (format === 'csv') {
+        let columns: (string | undefined)[] | null = null;
+        for await (const values of CsvUtils.parseStream(stream)) {
+          if (!columns) {
+            columns = this.mapCsvHeader(values);
+          } else if (values.some(value => value.trim() !== '')) {
+            yield this.mapCsvRow(columns, values);
+          }
+        }
+        return;
+      }
+
+      const foods = JsonStreamUtils.parseArrayItems(
+        stream,
+        format === 'usda' ? USDA_FOOD_LISTS : []
+      );
+      for await (const food of foods) {
+        yield format === 'usda' ? this.mapUsdaFood(food) : food;
+      }
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  // Helper method to start the state of an import
+  private createImportState(
+    format: MealImportFormat,
+    options: ImportMealsOptions
+  ): ImportState {
+    return {
+      source: (options.source || (format === 'usda' ? 'usda' : 'import'))
+        .trim()
+        .toLowerCase(),
+      dryRun: !!options.dryRun,
+      viewer: { userId: options.changedBy, isAdmin: true },
+      total: 0,
+      inserted: 0,
+      updated: 0,
+      skipped: 0,
+      issues: [],
+      unitsCreated: [],
+      units: new Map(),
+      seen: new Set(),
+    };
+  }
+
+  // Helper method to validate and save one batch of foods. Foods are
+  // matched to existing meals of the source by source ID (or name when they
+  // have none): matches are updated when their nutrition changed, the rest
+  // inserted.
+  private async importBatch(
+    rawRecords: any[],
+    state: ImportState
+  ): Promise<void> {
+    const { source, dryRun, viewer, issues } = state;
+    const skip = (index: number, record: any, reason: string) => {
+      state.skipped++;
+      if (issues.length < ISSUE_LIMIT) {
+        issues.push({
+          index,
+          name: record?.name,
+          sourceId: record?.sourceId,
+          reason,
+        });
+      }
+    };
+
+    // Step 1: Validate every food
+    const records: ValidRecord[] = [];
+    rawRecords.forEach((raw, i) => {
+      const index = state.total + i + 1;
+      const result = this.validateRecord(raw);
+      if (typeof result === 'string') {
+        skip(index, raw, result);
+      } else {
+        records.push({ index, data: result });
+      }
+    });
+    state.total += rawRecords.length;
+
+    // Step 2: Resolve the quantity units not seen in earlier batches and
+    // the meals to update
+    const newUnits = [...new Set(records.map(({ data }) => data.unit))].filter(
+      unit => !state.units.has(unit)
+    );
+    if (newUnits.length > 0) {
+      const units = await this.resolveUnits(
+        newUnits,
+        dryRun,
+        state.unitsCreated
+      );
+      units.forEach((unit, shortName) => state.units.set(shortName, unit));
+    }
+    const { bySourceId, byName } = await this.findExistingMeals(
+      source,
+      records
+    );
+
+    // Step 3: Insert or update each food, once per source ID (or name)
+    for (const { index, data } of records) {
+      const key = data.sourceId
+        ? `id:${data.sourceId}`
+        : `name:${data.name.toLowerCase()}`;
+      if (state.seen.has(key)) {
+        skip(index, data, 'Duplicate of an earlier food in the file');
+        continue;
+      }
+      state.seen.add(key);
+
+      const unit = state.units.get(data.unit);
+      if (!unit) {
+        skip(index, data, `Unknown quantity unit: ${data.unit}`);
+        continue;
+      }
+
+      const existing = data.sourceId
+        ? bySourceId.get(data.sourceId)
+        : byName.get(data.name.toLowerCase());
+      if (existing && existing.isActive === false) {
+        skip(index, data, 'Meal is archived');
+        continue;
+      }
+      if (existing?.isRecipe) {
+        skip(index, data, 'A recipe with this name already exists');
+        continue;
+      }
+
+      const { unit: _unit, ...fields } = data;
+      const mealData: any = {
+        ...fields,
+        quantityUnit: unit._id ? (unit._id as any).toString() : undefined,
+      };
+
+      try {
+        if (!existing) {
+          if (!dryRun) {
+            await this.mealService.createMeal({ ...mealData, source }, viewer);
+          }
+          state.inserted++;
+          continue;
+        }
+
+        // Fields missing from the file are cleared, the file is the source
+        // of truth for the meals it created
+        const changes: any = {};
+        COMPARED_FIELDS.forEach(field => {
+          const value = (mealData as any)[field];
+          if (value !== existing[field]) {
+            changes[field] = value === undefined ? null : value;
+          }
+        });
+        if (existing.quantityUnit?.toString() !== mealData.quantityUnit) {
+          changes.quantityUnit = mealData.quantityUnit;
+        }
+
+        if (Object.keys(changes).length === 0) {
+          state.skipped++;
+          continue;
+        }
+        if (!dryRun) {
+          await this.mealService.updateMeal(
+            existing._id.toString(),
+            changes,
+            viewer
+          );
+        }
+        state.updated++;
+      } catch (error) {
+        skip(
+          index,
+          data,
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+    }
+  }
+
+  // Helper method to build the result of a finished import
+  private buildResult(
+    format: MealImportFormat,
+    state: ImportState
+  ): ImportMealsResult {
+    return {
+      source: state.source,
+      format,
+      dryRun: state.dryRun,
+      total: state.total,
+      inserted: state.inserted,
+      updated: state.updated,
+      skipped: state.skipped,
+      unitsCreated: state.unitsCreated,
+      issues: state.issues,
+    };
+  }
+
+  // Import a nutrition database file into the global meal catalog, given as
+  // text (e.g. an uploaded file)
+  public async importMeals(
+    content: string,
+    options: ImportMealsOptions = {}
+  ): Promise<ImportMealsResult> {
+    try {
+      const format = options.format || this.detectFormat(content);
+      const state = this.createImportState(format, options);
+      const rawRecords = this.parseRecords(content, format);
+      for (let i = 0; i < rawRecords.length; i += IMPORT_BATCH_SIZE) {
+        await this.importBatch(
+          rawRecords.slice(i, i + IMPORT_BATCH_SIZE),
+          state
+        );
+      }
+      return this.buildResult(format, state);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to import meals: ${error.message}`);
+      }
+      throw new Error('Failed to import meals');
+    }
+  }
+
+  // Import a nutrition database file from disk. The file is read as a
+  // stream and imported in batches, so files of any size can be imported,
+  // such as the FoodData Central branded foods download.
+  public async importMealsFromFile(
+    filePath: string,
+    options: ImportMealsOptions = {}
+  ): Promise<ImportMealsResult> {
+    try {
+      const start = await this.readFileStart(filePath);
+      const format = options.format || this.detectFormat(start);
+      if (format === 'json' && !start.trim().startsWith('[')) {
+        throw new Error('JSON imports must be an array of foods');
+      }
+      const state = this.createImportState(format, options);
+
+      let batch: any[] = [];
+      for await (const raw of this.streamRecords(filePath, format)) {
+        batch.push(raw);
+        if (batch.length === IMPORT_BATCH_SIZE) {
+          await this.importBatch(batch, state);
+          batch = [];
+        }
+      }
+      await this.importBatch(batch, state);
+      return this.buildResult(format, state);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to import meals: ${error.message}`);
+      }
+      throw new Error('Failed to import meals');
+    }
+  }
+}
@@ -1,26 +1,322 @@
-import Meal, { IMeal } from '../models/MealSchema';
+import Meal, { IMeal, buildMealVisibilityFilter } from '../models/MealSchema';
 import {
   CreateMealRequest,
   UpdateMealRequest,
+  MealIngredient,
   MealSearchParams,
+  MealViewer,
+  MealVisibility,
 } from '../models/Meal';
+import { MealChangeType } from '../models/MealVersion';
+import { IMealVersion } from '../models/MealVersionSchema';
+import {
+  DeleteDependent,
+  DeleteResult,
+  DeleteStrategy,
+} from '../models/Deletion';
+import FoodLog from '../models/FoodLogSchema';
+import MealTemplate from '../models/MealTemplateSchema';
+import { DeletionUtils } from '../utils/deletion';
+import { FoodLogService } from './foodLogService';
+import { QuantityUnitService } from './quantityUnitService';
+import { MealVersionService, TRACKED_MEAL_FIELDS } from './mealVersionService';
+import { MICRONUTRIENT_KEYS, Micronutrients } from '../utils/nutrients';
+import { UpdateUtils } from '../utils/update';
+
+const NUTRITION_FIELDS = [
+  'calories',
+  'protein',
+  'fat',
+  'carbs',
+  ...MICRONUTRIENT_KEYS,
+] as const;
+
+// Fields a meal's owner may change
+const MEAL_UPDATE_FIELDS = [
+  'name',
+  ...NUTRITION_FIELDS,
+  'quantity',
+  'quantityUnit',
+  'density',
+  'tags',
+  'emoji',
+  'isRecipe',
+  'ingredients',
+  'yield',
+];
+
+// Fields only admins may change: moving a meal between users or the global
+// catalog, archiving and the import origin
+const ADMIN_MEAL_UPDATE_FIELDS = ['user', 'isActive', 'source', 'sourceId'];
+
+// Fields that fall back to a default instead of being cleared on revert
+const REVERT_DEFAULTS: { [field: string]: any } = {
+  tags: [],
+  ingredients: [],
+  isRecipe: false,
+};
 
 export class MealService {
+  private quantityUnitService: QuantityUnitService;
+  private mealVersionService: MealVersionService;
+  private foodLogService: FoodLogService;
+
+  constructor() {
+    this.quantityUnitService = new QuantityUnitService();
+    this.mealVersionService = new MealVersionService();
+    this.foodLogService = new FoodLogService();
+  }
+
+  // Helper method to derive servings for ingredients given by amount, e.g.
+  // 200 g of an ingredient with a 100 g reference quantity is 2 servings
+  private async resolveIngredientServings(
+    ingredients: MealIngredient[]
+  ): Promise<MealIngredient[]> {
+    const byAmount = ingredients.filter(
+      i => i.amount !== undefined && i.quantityUnit
+    );
+    if (byAmount.length === 0) {
+      return ingredients;
+    }
+
+    const meals = await Meal.find({
+      _id: { $in: byAmount.map(i => i.meal.toString()) },
+    })
+      .select('quantity quantityUnit density')
+      .lean();
+    const mealsMap = new Map();
+    meals.forEach(meal => {
+      mealsMap.set((meal._id as any).toString(), meal);
+    });
+
+    return Promise.all(
+      ingredients.map(async ingredient => {
+        if (ingredient.amount === undefined || !ingredient.quantityUnit) {
+          return ingredient;
+        }
+
+        const meal = mealsMap.get(ingredient.meal.toString());
+        if (!meal) {
+          throw new Error(`Meal not found: ${ingredient.meal}`);
+        }
+
+        let amountInMealUnit = ingredient.amount;
+        if (
+          ingredient.quantityUnit.toString() !== meal.quantityUnit.toString()
+        ) {
+          const conversion = await this.quantityUnitService.convertAmount(
+            ingredient.amount,
+            ingredient.quantityUnit.toString(),
+            meal.quantityUnit.toString(),
+            meal.density
+          );
+          amountInMealUnit = conversion.result;
+        }
+
+        return {
+          ...ingredient,
+          servings:
+            Math.round((amountInMealUnit / meal.quantity) * 1000) / 1000,
+        };
+      })
+    );
+  }
+
+  // Helper method to check whether a viewer may change a meal. Admins can
+  // change any meal, users only their own; global meals are admin-only.
+  private canModify(meal: { user?: any }, viewer?: MealViewer): boolean {
+    if (!viewer || viewer.isAdmin) {
+      return true;
+    }
+    if (!meal.user) {
+      throw new Error('Only admins can modify global meals');
+    }
+    return meal.user.toString() === viewer.userId;
+  }
+
+  // Helper method to make sure a recipe only uses global meals and meals
+  // belonging to the recipe's owner
+  private async assertIngredientsUsable(
+    ingredients: MealIngredient[],
+    ownerId?: string
+  ): Promise<void> {
+    const mealIds = [...new Set(ingredients.map(i => i.meal.toString()))];
+    const meals = await Meal.find({
+      _id: { $in: mealIds },
+      ...buildMealVisibilityFilter({ userId: ownerId, isAdmin: false }),
+    })
+      .select('_id')
+      .lean();
+    const foundIds = new Set(meals.map(meal => (meal._id as any).toString()));
+
+    const missingMealIds = mealIds.filter(mealId => !foundIds.has(mealId));
+    if (missingMealIds.length > 0) {
+      throw new Error(`Meal not found: ${missingMealIds.join(', ')}`);
+    }
+  }
+
+  // Helper method to compute per-serving nutrition of a recipe
+  private async computeRecipeNutrition(
+    ingredients: MealIngredient[],
+    servingsYield: number
+  ): Promise<
+    {
+      calories: number;
+      protein: number;
+      fat?: number;
+      carbs?: number;
+    } & Micronutrients
+  > {
+    if (!ingredients || ingredients.length === 0) {
+      throw new Error('A recipe must have at least one ingredient');
+    }
+    if (!servingsYield || servingsYield <= 0) {
+      throw new Error('Recipe yield must be greater than 0');
+    }
+
+    const mealIds = [...new Set(ingredients.map(i => i.meal.toString()))];
+    const meals = await Meal.find({ _id: { $in: mealIds } })
+      .select(NUTRITION_FIELDS.join(' '))
+      .lean();
+    const mealsMap = new Map();
+    meals.forEach(meal => {
+      mealsMap.set((meal._id as any).toString(), meal);
+    });
+
+    const missingMealIds = mealIds.filter(mealId => !mealsMap.has(mealId));
+    if (missingMealIds.length > 0) {
+      throw new Error(`Meal not found: ${missingMealIds.join(', ')}`);
+    }
+
+    const totals: any = { calories: 0, protein: 0 };
+    ingredients.forEach(ingredient => {
+      const meal = mealsMap.get(ingredient.meal.toString());
+      NUTRITION_FIELDS.forEach(field => {
+        // Optional nutrients stay undefined unless an ingredient tracks them
+        if (meal[field] !== undefined) {
+          totals[field] =
+            (totals[field] || 0) + meal[field] * ingredient.servings;
+        }
+      });
+    });
+
+    NUTRITION_FIELDS.forEach(field => {
+      if (totals[field] !== undefined) {
+        totals[field] = Math.round((totals[field] / servingsYield) * 100) / 100;
+      }
+    });
+
+    return totals;
+  }
+
+  // Helper method to reject ingredient lists that would make a recipe
+  // (directly or through nested recipes) contain itself
+  private async assertNoRecipeCycle(
+    recipeId: string,
+    ingredients: MealIngredient[]
+  ): Promise<void> {
+    const visited = new Set<string>();
+    let frontier = ingredients.map(i => i.meal.toString());
+
+    while (frontier.length > 0) {
+      if (frontier.includes(recipeId)) {
+        throw new Error('A recipe cannot include itself as an ingredient');
+      }
+      frontier.forEach(mealId => visited.add(mealId));
+
+      const nestedRecipes = await Meal.find({
+        _id: { $in: frontier },
+        isRecipe: true,
+      })
+        .select('ingredients.meal')
+        .lean();
+
+      frontier = [
+        ...new Set(
+          nestedRecipes.flatMap(recipe =>
+            recipe.ingredients.map(i => i.meal.toString())
+          )
+        ),
+      ].filter(mealId => !visited.has(mealId));
+    }
+  }
+
+  // Helper method to build an update that replaces all nutrition fields,
+  // clearing optional nutrients the recipe no longer tracks
+  private buildNutritionUpdate(nutrition: {
+    [field: string]: number | undefined;
+  }): any {
+    const update: any = { $set: {}, $unset: {} };
+    NUTRITION_FIELDS.forEach(field => {
+      if (nutrition[field] !== undefined) {
+        update.$set[field] = nutrition[field];
+      } else {
+        update.$unset[field] = 1;
+      }
+    });
+    if (Object.keys(update.$unset).length === 0) {
+      delete update.$unset;
+    }
+    return update;
+  }
+
+  // Recompute every recipe that uses the meal, then the recipes using those.
+  // The visited set stops runaway recursion if a cycle ever slips through.
+  private async propagateNutritionChange(
+    mealId: string,
+    visited: Set<string> = new Set()
+  ): Promise<void> {
+    visited.add(mealId);
+
+    const recipes = await Meal.find({ 'ingredients.meal': mealId }).lean();
+
+    for (const recipe of recipes) {
+      const recipeId = (recipe._id as any).toString();
+      if (visited.has(recipeId)) {
+        continue;
+      }
+
+      // Ingredients given by amount depend on the ingredient's quantity too
+      const ingredients = await this.resolveIngredientServings(
+        recipe.ingredients as any
+      );
+      const nutrition = await this.computeRecipeNutrition(
+        ingredients,
+        recipe.yield || 1
+      );
+      const update = this.buildNutritionUpdate(nutrition);
+      update.$set.ingredients = ingredients;
+      const updatedRecipe = await Meal.findByIdAndUpdate(recipeId, update, {
+        new: true,
+      }).lean();
+      await this.mealVersionService.recordVersion(
+        recipeId,
+        recipe,
+        updatedRecipe,
+        { changeType: 'recompute' }
+      );
+      await this.propagateNutritionChange(recipeId, visited);
+    }
+  }
+
   public async getAllMeals(
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    viewer?: MealViewer,
+    visibility: MealVisibility = 'all'
   ): Promise<{ data: IMeal[]; total: number; page: number; pages: number }> {
     const skip = (page - 1) * limit;
+    const filter = buildMealVisibilityFilter(viewer, visibility);
 
     const [data, total] = await Promise.all([
-      Meal.find()
+      Meal.find(filter)
         .populate('tags', 'name category color')
         .populate('quantityUnit', 'name shortName defaultValue incrementValue')
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(limit)
         .lean(),
-      Meal.countDocuments(),
+      Meal.countDocuments(filter),
     ]);
 
     return {
@@ -31,9 +327,15 @@ export class MealService {
     };
   }
 
-  public async getMealById(id: string): Promise<IMeal | null> {
+  public async getMealById(
+    id: string,
+    viewer?: MealViewer
+  ): Promise<IMeal | null> {
     try {
-      const meal = await Meal.findById(id)
+      const meal = await Meal.findOne({
+        _id: id,
+        ...buildMealVisibilityFilter(viewer, 'all', true),
+      })
         .populate('tags', 'name category color')
         .populate('quantityUnit', 'name shortName defaultValue incrementValue')
         .lean();
@@ -43,7 +345,10 @@ export class MealService {
     }
   }
 
-  public async createMeal(data: CreateMealRequest): Promise<IMeal> {
+  public async createMeal(
+    data: CreateMealRequest,
+    viewer?: MealViewer
+  ): Promise<IMeal> {
     try {
       const mealData: any = {
         name: data.name.trim(),
@@ -55,11 +360,20 @@ export class MealService {
         emoji: data.emoji?.trim(),
       };
 
-      // Only include user if provided
+      if (data.density !== undefined) {
+        mealData.density = data.density;
+      }
+
+      // Meals without a user are global
       if (data.user) {
         mealData.user = data.user;
       }
 
+      if (data.source) {
+        mealData.source = data.source;
+        mealData.sourceId = data.sourceId;
+      }
+
       // Only include fat and carbs if they are provided
       if (data.fat !== undefined) {
         mealData.fat = data.fat;
@@ -67,9 +381,38 @@ export class MealService {
       if (data.carbs !== undefined) {
         mealData.carbs = data.carbs;
       }
+      MICRONUTRIENT_KEYS.forEach(key => {
+        if (data[key] !== undefined) {
+          mealData[key] = data[key];
+        }
+      });
+
+      // Recipe nutrition always comes from the ingredients
+      if (data.isRecipe) {
+        await this.assertIngredientsUsable(data.ingredients || [], data.user);
+        const ingredients = await this.resolveIngredientServings(
+          data.ingredients || []
+        );
+        const nutrition = await this.computeRecipeNutrition(
+          ingredients,
+          data.yield as number
+        );
+        NUTRITION_FIELDS.forEach(field => delete mealData[field]);
+        Object.assign(mealData, nutrition, {
+          isRecipe: true,
+          ingredients,
+          yield: data.yield,
+        });
+      }
 
       const newMeal = new Meal(mealData);
       const savedMeal = await newMeal.save();
+      await this.mealVersionService.recordVersion(
+        (savedMeal._id as any).toString(),
+        null,
+        savedMeal,
+        { changeType: 'create', changedBy: viewer?.userId }
+      );
       return savedMeal.toObject();
     } catch (error) {
       if (error instanceof Error) {
@@ -81,48 +424,308 @@ export class MealService {
 
   public async updateMeal(
     id: string,
-    data: UpdateMealRequest
+    data: UpdateMealRequest,
+    viewer?: MealViewer,
+    history: { changeType: MealChangeType; revertedFrom?: number } = {
+      changeType: 'update',
+    }
+  ): Promise<IMeal | null> {
+    try {
+      const updateData = UpdateUtils.pickFields(
+        data,
+        !viewer || viewer.isAdmin
+          ? [...MEAL_UPDATE_FIELDS, ...ADMIN_MEAL_UPDATE_FIELDS]
+          : MEAL_UPDATE_FIELDS
+      );
+      return await this.applyMealUpdate(id, updateData, viewer, history);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to update meal: ${error.message}`);
+      }
+      throw new Error('Failed to update meal');
+    }
+  }
+
+  // Helper method to apply an update built by the service itself (archiving,
+  // cascades, reverts) or filtered by updateMeal
+  private async applyMealUpdate(
+    id: string,
+    updateData: any,
+    viewer?: MealViewer,
+    history: { changeType: MealChangeType; revertedFrom?: number } = {
+      changeType: 'update',
+    }
   ): Promise<IMeal | null> {
+    if (updateData.name) {
+      updateData.name = updateData.name.trim();
+    }
+    // Quantity and quantityUnit are handled by the schema validation
+    if (updateData.emoji) {
+      updateData.emoji = updateData.emoji.trim();
+    }
+    // User field is handled by the schema validation
+    // Tags are already validated by the schema
+
+    const existingMeal = await Meal.findById(id).lean();
+    if (!existingMeal || !this.canModify(existingMeal, viewer)) {
+      return null;
+    }
+
+    const isRecipe = updateData.isRecipe ?? existingMeal.isRecipe;
+    if (isRecipe) {
+      // Recipe nutrition always comes from the ingredients
+      NUTRITION_FIELDS.forEach(field => delete updateData[field]);
+
+      if (updateData.ingredients) {
+        await this.assertIngredientsUsable(
+          updateData.ingredients,
+          (updateData.user ?? existingMeal.user)?.toString()
+        );
+        await this.assertNoRecipeCycle(id, updateData.ingredients);
+        updateData.ingredients = await this.resolveIngredientServings(
+          updateData.ingredients
+        );
+      }
+      const ingredients = updateData.ingredients || existingMeal.ingredients;
+
+      const nutrition = await this.computeRecipeNutrition(
+        ingredients as MealIngredient[],
+        (updateData.yield ?? existingMeal.yield) as number
+      );
+      const nutritionUpdate = this.buildNutritionUpdate(nutrition);
+      Object.assign(updateData, nutritionUpdate.$set);
+      if (nutritionUpdate.$unset) {
+        updateData.$unset = nutritionUpdate.$unset;
+      }
+    } else {
+      delete updateData.ingredients;
+      delete updateData.yield;
+      if (existingMeal.isRecipe) {
+        // Turning a recipe back into a plain meal keeps its last nutrition
+        updateData.ingredients = [];
+        updateData.$unset = { yield: 1 };
+      }
+    }
+
+    // null clears an optional field
+    Object.keys(updateData).forEach(field => {
+      if (updateData[field] === null) {
+        delete updateData[field];
+        updateData.$unset = { ...updateData.$unset, [field]: 1 };
+      }
+    });
+
+    const updatedMeal = await Meal.findByIdAndUpdate(id, updateData, {
+      new: true,
+      runValidators: true,
+    })
+      .populate('tags', 'name category color')
+      .populate('quantityUnit', 'name shortName defaultValue incrementValue')
+      .lean();
+
+    if (updatedMeal) {
+      await this.mealVersionService.recordVersion(
+        id,
+        existingMeal,
+        updatedMeal,
+        { ...history, changedBy: viewer?.userId }
+      );
+    }
+
+    // Keep recipes that use this meal in sync with its nutrition (and its
+    // quantity, which ingredients given by amount are converted against)
+    const changedFields = [
+      ...Object.keys(updateData).filter(
+        field => updateData[field] !== undefined
+      ),
+      ...Object.keys(updateData.$unset || {}),
+    ];
+    if (
+      updatedMeal &&
+      [...NUTRITION_FIELDS, 'quantity', 'quantityUnit', 'density'].some(field =>
+        changedFields.includes(field)
+      )
+    ) {
+      await this.propagateNutritionChange(id);
+    }
+
+    return updatedMeal;
+  }
+
+  // Helper method to list what still references a meal. None of it blocks a
+  // cascade: logs fall back to their nutrition snapshot, templates and
+  // recipes drop the meal.
+  private async findMealDependents(mealId: string): Promise<DeleteDependent[]> {
+    const dependents = await Promise.all([
+      // Trashed logs count too, as they can still be restored
+      DeletionUtils.findDependent(
+        'foodLogs',
+        FoodLog,
+        { meal: mealId },
+        false,
+        { withDeleted: true }
+      ),
+      DeletionUtils.findDependent(
+        'recipes',
+        Meal,
+        { 'ingredients.meal': mealId },
+        false
+      ),
+      DeletionUtils.findDependent(
+        'mealTemplates',
+        MealTemplate,
+        { 'items.meal': mealId },
+        false
+      ),
+    ]);
+    return dependents.filter(
+      (dependent): dependent is DeleteDependent => dependent !== null
+    );
+  }
+
+  // Helper method to remove references to a meal before it is deleted
+  private async cascadeMealReferences(
+    meal: any,
+    viewer?: MealViewer
+  ): Promise<void> {
+    const mealId = meal._id.toString();
+
+    await this.foodLogService.backfillNutritionSnapshots(meal);
+
+    // Templates left without items are removed altogether
+    const templates = await MealTemplate.find({ 'items.meal': mealId })
+      .select('_id')
+      .lean();
+    await MealTemplate.updateMany(
+      { 'items.meal': mealId },
+      { $pull: { items: { meal: mealId } } }
+    );
+    await MealTemplate.deleteMany({
+      _id: { $in: templates.map(template => template._id) },
+      items: { $size: 0 },
+    });
+
+    // Recipes are recomputed without the meal, or become plain meals
+    // (keeping their last nutrition) if it was their only ingredient
+    const recipes = await Meal.find({ 'ingredients.meal': mealId })
+      .select('ingredients')
+      .lean();
+    for (const recipe of recipes) {
+      const ingredients = recipe.ingredients.filter(
+        ingredient => ingredient.meal.toString() !== mealId
+      );
+      await this.applyMealUpdate(
+        (recipe._id as any).toString(),
+        ingredients.length > 0
+          ? { ingredients: ingredients as any }
+          : { isRecipe: false },
+        viewer
+      );
+    }
+  }
+
+  public async deleteMeal(
+    id: string,
+    viewer?: MealViewer,
+    strategy: DeleteStrategy = 'block'
+  ): Promise<DeleteResult | null> {
     try {
-      const updateData: any = { ...data };
-      if (updateData.name) {
-        updateData.name = updateData.name.trim();
+      const meal = await Meal.findById(id).lean();
+      if (!meal || !this.canModify(meal, viewer)) {
+        return null;
       }
-      // Quantity and quantityUnit are handled by the schema validation
-      if (updateData.emoji) {
-        updateData.emoji = updateData.emoji.trim();
+
+      const dependents = await this.findMealDependents(id);
+
+      if (strategy === 'archive') {
+        await this.applyMealUpdate(id, { isActive: false }, viewer, {
+          changeType: 'archive',
+        });
+        return { strategy, outcome: 'archived', dependents };
       }
-      // User field is handled by the schema validation
-      // Tags are already validated by the schema
 
-      const updatedMeal = await Meal.findByIdAndUpdate(id, updateData, {
-        new: true,
-        runValidators: true,
-      })
-        .populate('tags', 'name category color')
-        .populate('quantityUnit', 'name shortName defaultValue incrementValue')
-        .lean();
+      const blocked = DeletionUtils.blockedResult(strategy, dependents);
+      if (blocked) {
+        return blocked;
+      }
 
-      return updatedMeal;
+      if (strategy === 'cascade') {
+        await this.cascadeMealReferences(meal, viewer);
+      }
+
+      await Meal.findByIdAndDelete(id);
+      await this.mealVersionService.recordVersion(id, meal, null, {
+        changeType: 'delete',
+        changedBy: viewer?.userId,
+      });
+      return { strategy, outcome: 'deleted', dependents };
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to update meal: ${error.message}`);
+        throw new Error(`Failed to delete meal: ${error.message}`);
       }
-      throw new Error('Failed to update meal');
+      throw new Error('Failed to delete meal');
     }
   }
 
-  public async deleteMeal(id: string): Promise<boolean> {
+  // Restore a meal's tracked fields (except its owner and whether it is
+  // archived) to a previous version.
+  // The revert is recorded as a new version, so it can be undone as well.
+  public async revertMeal(
+    id: string,
+    version: number,
+    viewer?: MealViewer
+  ): Promise<IMeal | null> {
     try {
-      const result = await Meal.findByIdAndDelete(id);
-      return !!result;
-    } catch (_) {
-      throw new Error('Failed to delete meal');
+      const mealVersion = await this.mealVersionService.getVersion(id, version);
+      if (!mealVersion) {
+        throw new Error('Meal version not found');
+      }
+      if (mealVersion.changeType === 'delete') {
+        throw new Error('Cannot revert to a deleted version');
+      }
+
+      const data: any = {};
+      // Ownership and archiving are not part of what a revert restores
+      TRACKED_MEAL_FIELDS.filter(
+        field => field !== 'user' && field !== 'isActive'
+      ).forEach(field => {
+        data[field] =
+          mealVersion.snapshot[field] ?? REVERT_DEFAULTS[field] ?? null;
+      });
+
+      return await this.applyMealUpdate(id, data, viewer, {
+        changeType: 'revert',
+        revertedFrom: version,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to revert meal: ${error.message}`);
+      }
+      throw new Error('Failed to revert meal');
     }
   }
 
+  public async getMealVersions(
+    id: string,
+    page: number = 1,
+    limit: number = 10,
+    viewer?: MealViewer
+  ): Promise<{
+    data: IMealVersion[];
+    total: number;
+    page: number;
+    pages: number;
+  } | null> {
+    const meal = await this.getMealById(id, viewer);
+    if (!meal) {
+      return null;
+    }
+    return this.mealVersionService.getVersions(id, page, limit);
+  }
+
   public async searchMeals(
-    params: MealSearchParams
+    params: MealSearchParams,
+    viewer?: MealViewer
   ): Promise<{ data: IMeal[]; total: number; page: number; pages: number }> {
     const {
       query = '',
@@ -134,13 +737,15 @@ export class MealService {
       maxFat,
       minCarbs,
       maxCarbs,
+      micronutrientRanges = {},
       tags,
+      visibility = 'all',
       page = 1,
       limit = 10,
     } = params;
     const skip = (page - 1) * limit;
 
-    let searchQuery: any = {};
+    let searchQuery: any = buildMealVisibilityFilter(viewer, visibility);
 
     // Text search by name
     if (query) {
@@ -175,6 +780,17 @@ export class MealService {
       if (maxCarbs !== undefined) searchQuery.carbs.$lte = maxCarbs;
     }
 
+    // Micronutrient range filters, meals that don't track one never match it
+    MICRONUTRIENT_KEYS.forEach(key => {
+      const range = micronutrientRanges[key];
+      if (!range || (range.min === undefined && range.max === undefined)) {
+        return;
+      }
+      searchQuery[key] = {};
+      if (range.min !== undefined) searchQuery[key].$gte = range.min;
+      if (range.max !== undefined) searchQuery[key].$lte = range.max;
+    });
+
     // Tags filter
     if (tags && tags.length > 0) {
       searchQuery.tags = { $in: tags };
@@ -199,9 +815,14 @@ export class MealService {
     };
   }
 
-  public async getMealStats(): Promise<any> {
+  public async getMealStats(
+    viewer?: MealViewer,
+    visibility: MealVisibility = 'all'
+  ): Promise<any> {
     try {
-      const stats = await Meal.getMealStats();
+      const stats = await Meal.getMealStats(
+        buildMealVisibilityFilter(viewer, visibility)
+      );
       return (
         stats[0] || {
           totalMeals: 0,
@@ -224,17 +845,24 @@ export class MealService {
     minCalories: number,
     maxCalories: number,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    viewer?: MealViewer,
+    visibility: MealVisibility = 'all'
   ): Promise<{ data: IMeal[]; total: number; page: number; pages: number }> {
     const skip = (page - 1) * limit;
+    const filter = buildMealVisibilityFilter(viewer, visibility);
 
     const [data, total] = await Promise.all([
-      Meal.find({ calories: { $gte: minCalories, $lte: maxCalories } })
+      Meal.find({
+        ...filter,
+        calories: { $gte: minCalories, $lte: maxCalories },
+      })
         .sort({ name: 1 })
         .skip(skip)
         .limit(limit)
         .lean(),
       Meal.countDocuments({
+        ...filter,
         calories: { $gte: minCalories, $lte: maxCalories },
       }),
     ]);
@@ -251,17 +879,23 @@ export class MealService {
     minProtein: number,
     maxProtein: number,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    viewer?: MealViewer,
+    visibility: MealVisibility = 'all'
   ): Promise<{ data: IMeal[]; total: number; page: number; pages: number }> {
     const skip = (page - 1) * limit;
+    const filter = buildMealVisibilityFilter(viewer, visibility);
 
     const [data, total] = await Promise.all([
-      Meal.find({ protein: { $gte: minProtein, $lte: maxProtein } })
+      Meal.find({ ...filter, protein: { $gte: minProtein, $lte: maxProtein } })
         .sort({ name: 1 })
         .skip(skip)
         .limit(limit)
         .lean(),
-      Meal.countDocuments({ protein: { $gte: minProtein, $lte: maxProtein } }),
+      Meal.countDocuments({
+        ...filter,
+        protein: { $gte: minProtein, $lte: maxProtein },
+      }),
     ]);
 
     return {
@@ -276,17 +910,20 @@ export class MealService {
     minFat: number,
     maxFat: number,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    viewer?: MealViewer,
+    visibility: MealVisibility = 'all'
   ): Promise<{ data: IMeal[]; total: number; page: number; pages: number }> {
     const skip = (page - 1) * limit;
+    const filter = buildMealVisibilityFilter(viewer, visibility);
 
     const [data, total] = await Promise.all([
-      Meal.find({ fat: { $gte: minFat, $lte: maxFat } })
+      Meal.find({ ...filter, fat: { $gte: minFat, $lte: maxFat } })
         .sort({ name: 1 })
         .skip(skip)
         .limit(limit)
         .lean(),
-      Meal.countDocuments({ fat: { $gte: minFat, $lte: maxFat } }),
+      Meal.countDocuments({ ...filter, fat: { $gte: minFat, $lte: maxFat } }),
     ]);
 
     return {
@@ -301,17 +938,23 @@ export class MealService {
     minCarbs: number,
     maxCarbs: number,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    viewer?: MealViewer,
+    visibility: MealVisibility = 'all'
   ): Promise<{ data: IMeal[]; total: number; page: number; pages: number }> {
     const skip = (page - 1) * limit;
+    const filter = buildMealVisibilityFilter(viewer, visibility);
 
     const [data, total] = await Promise.all([
-      Meal.find({ carbs: { $gte: minCarbs, $lte: maxCarbs } })
+      Meal.find({ ...filter, carbs: { $gte: minCarbs, $lte: maxCarbs } })
         .sort({ name: 1 })
         .skip(skip)
         .limit(limit)
         .lean(),
-      Meal.countDocuments({ carbs: { $gte: minCarbs, $lte: maxCarbs } }),
+      Meal.countDocuments({
+        ...filter,
+        carbs: { $gte: minCarbs, $lte: maxCarbs },
+      }),
     ]);
 
     return {
@@ -322,9 +965,12 @@ export class MealService {
     };
   }
 
-  public async getMealInfo(mealId: string): Promise<any> {
+  public async getMealInfo(mealId: string, viewer?: MealViewer): Promise<any> {
     try {
-      const meal = await Meal.findById(mealId);
+      const meal = await Meal.findOne({
+        _id: mealId,
+        ...buildMealVisibilityFilter(viewer, 'all', true),
+      }).populate('ingredients.meal', 'name calories protein fat carbs');
       if (!meal) {
         throw new Error('Meal not found');
       }
@@ -342,15 +988,18 @@ export class MealService {
   public async getMealsByTags(
     tags: string[],
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    viewer?: MealViewer,
+    visibility: MealVisibility = 'all'
   ): Promise<{ data: IMeal[]; total: number; page: number; pages: number }> {
     const _skip = (page - 1) * limit;
+    const filter = buildMealVisibilityFilter(viewer, visibility);
 
     const [data, total] = await Promise.all([
-      Meal.findByTags(tags, page, limit).then(results =>
+      Meal.findByTags(tags, page, limit, filter).then(results =>
         results.map(result => result.toObject())
       ),
-      Meal.countDocuments({ tags: { $in: tags } }),
+      Meal.countDocuments({ ...filter, tags: { $in: tags } }),
     ]);
 
     return {
@@ -0,0 +1,230 @@
+import { BulkFoodLogResponse } from '../models/FoodLog';
+import {
+  CreateMealTemplateRequest,
+  LogMealTemplateRequest,
+  MealTemplateItem,
+  UpdateMealTemplateRequest,
+} from '../models/MealTemplate';
+import MealTemplate, { IMealTemplate } from '../models/MealTemplateSchema';
+import Meal, { buildMealVisibilityFilter } from '../models/MealSchema';
+import { OwnershipUtils } from '../utils/ownership';
+import { UpdateUtils } from '../utils/update';
+import { FoodLogService } from './foodLogService';
+
+// Fields of a template that can be updated; a template never moves to
+// another user
+const TEMPLATE_UPDATE_FIELDS = ['name', 'mealType', 'items', 'notes'];
+
+export class MealTemplateService {
+  private foodLogService: FoodLogService;
+
+  constructor() {
+    this.foodLogService = new FoodLogService();
+  }
+
+  // Helper method to make sure every referenced meal exists and is usable by
+  // the template's owner (global or their own)
+  private async validateItemMeals(
+    items: MealTemplateItem[],
+    userId: string
+  ): Promise<void> {
+    const mealIds = [...new Set(items.map(item => item.meal))];
+    const meals = await Meal.find({
+      _id: { $in: mealIds },
+      ...buildMealVisibilityFilter({ userId, isAdmin: false }),
+    })
+      .select('_id')
+      .lean();
+    const foundIds = new Set(meals.map(meal => (meal._id as any).toString()));
+
+    const missingMealIds = mealIds.filter(mealId => !foundIds.has(mealId));
+    if (missingMealIds.length > 0) {
+      throw new Error(`Meal not found: ${missingMealIds.join(', ')}`);
+    }
+  }
+
+  public async createTemplate(
+    data: CreateMealTemplateRequest
+  ): Promise<IMealTemplate> {
+    try {
+      await this.validateItemMeals(data.items, data.user);
+
+      const existingTemplate = await MealTemplate.findOne({
+        user: data.user,
+        name: data.name.trim(),
+      });
+      if (existingTemplate) {
+        throw new Error(
+          `A template named "${data.name.trim()}" already exists`
+        );
+      }
+
+      const newTemplate = new MealTemplate({
+        user: data.user,
+        name: data.name,
+        mealType: data.mealType,
+        items: data.items,
+        notes: data.notes,
+      });
+
+      const savedTemplate = await newTemplate.save();
+      return savedTemplate.toObject();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to create meal template: ${error.message}`);
+      }
+      throw new Error('Failed to create meal template');
+    }
+  }
+
+  public async getTemplateById(
+    id: string,
+    userId?: string
+  ): Promise<IMealTemplate | null> {
+    try {
+      const template = await MealTemplate.findOne(
+        OwnershipUtils.buildOwnerFilter(id, userId)
+      )
+        .populate(
+          'items.meal',
+          'name calories protein fat carbs quantity quantityUnit emoji'
+        )
+        .lean();
+      return template;
+    } catch (_) {
+      throw new Error('Invalid meal template ID format');
+    }
+  }
+
+  public async getTemplatesByUser(
+    userId: string,
+    page: number = 1,
+    limit: number = 10,
+    mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack'
+  ): Promise<{
+    data: IMealTemplate[];
+    total: number;
+    page: number;
+    pages: number;
+  }> {
+    const skip = (page - 1) * limit;
+    const query: any = { user: userId };
+    if (mealType) {
+      query.mealType = mealType;
+    }
+
+    const [data, total] = await Promise.all([
+      MealTemplate.find(query)
+        .populate(
+          'items.meal',
+          'name calories protein fat carbs quantity quantityUnit emoji'
+        )
+        .sort({ name: 1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      MealTemplate.countDocuments(query),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  public async updateTemplate(
+    id: string,
+    data: UpdateMealTemplateRequest,
+    userId?: string
+  ): Promise<IMealTemplate | null> {
+    try {
+      const updateData = UpdateUtils.pickFields(data, TEMPLATE_UPDATE_FIELDS);
+
+      if (updateData.items) {
+        const template = await MealTemplate.findOne(
+          OwnershipUtils.buildOwnerFilter(id, userId)
+        )
+          .select('user')
+          .lean();
+        if (!template) {
+          return null;
+        }
+        await this.validateItemMeals(
+          updateData.items,
+          template.user.toString()
+        );
+      }
+
+      const updatedTemplate = await MealTemplate.findOneAndUpdate(
+        OwnershipUtils.buildOwnerFilter(id, userId),
+        updateData,
+        {
+          new: true,
+          runValidators: true,
+        }
+      ).lean();
+
+      return updatedTemplate;
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('duplicate key')) {
+          throw new Error(
+            `A template named "${data.name?.trim()}" already exists`
+          );
+        }
+        throw new Error(`Failed to update meal template: ${error.message}`);
+      }
+      throw new Error('Failed to update meal template');
+    }
+  }
+
+  public async deleteTemplate(id: string, userId?: string): Promise<boolean> {
+    try {
+      const result = await MealTemplate.findOneAndDelete(
+        OwnershipUtils.buildOwnerFilter(id, userId)
+      );
+      return !!result;
+    } catch (_) {
+      throw new Error('Failed to delete meal template');
+    }
+  }
+
+  // Log every item of a template for its owner in one bulk call
+  public async logTemplate(
+    id: string,
+    data: LogMealTemplateRequest,
+    userId?: string
+  ): Promise<BulkFoodLogResponse | null> {
+    try {
+      // Not populated, so items of deleted meals keep their IDs and are
+      // reported by the bulk path
+      const template = await MealTemplate.findOne(
+        OwnershipUtils.buildOwnerFilter(id, userId)
+      ).lean();
+      if (!template) {
+        return null;
+      }
+
+      return await this.foodLogService.createBulkFoodLog({
+        user: template.user.toString(),
+        mealType: data.mealType || template.mealType,
+        items: template.items.map(item => ({
+          meal: item.meal.toString(),
+          servings: item.servings,
+          notes: item.notes,
+        })),
+        logDate: data.logDate,
+        loggedAt: data.loggedAt,
+        notes: data.notes ?? template.notes,
+        timezone: data.timezone,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to log meal template: ${error.message}`);
+      }
+      throw new Error('Failed to log meal template');
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import mongoose from 'mongoose';
+import {
+  MealFieldChange,
+  RecordMealVersionRequest,
+} from '../models/MealVersion';
+import Meal from '../models/MealSchema';
+import MealVersion, { IMealVersion } from '../models/MealVersionSchema';
+import { MICRONUTRIENT_KEYS } from '../utils/nutrients';
+
+// Attempts at saving a version before a version number clash is an error
+const VERSION_RETRIES = 5;
+
+// Meal fields captured in every version
+export const TRACKED_MEAL_FIELDS = [
+  'name',
+  'calories',
+  'protein',
+  'fat',
+  'carbs',
+  ...MICRONUTRIENT_KEYS,
+  'quantity',
+  'quantityUnit',
+  'density',
+  'tags',
+  'emoji',
+  'user',
+  'isRecipe',
+  'ingredients',
+  'yield',
+  'isActive',
+];
+
+export class MealVersionService {
+  // Helper method to turn a (possibly populated) value into plain JSON data,
+  // so references are stored as IDs and missing values as undefined
+  private normalizeValue(value: any): any {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    if (value instanceof mongoose.Types.ObjectId) {
+      return value.toString();
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.normalizeValue(item));
+    }
+    if (typeof value === 'object') {
+      // Populated references collapse back to their ID
+      if (value._id) {
+        return value._id.toString();
+      }
+      const normalized: any = {};
+      Object.entries(value).forEach(([key, nested]) => {
+        const normalizedValue = this.normalizeValue(nested);
+        if (normalizedValue !== undefined) {
+          normalized[key] = normalizedValue;
+        }
+      });
+      return normalized;
+    }
+    return value;
+  }
+
+  // Tracked fields of a meal as plain data
+  public buildSnapshot(meal: any): { [field: string]: any } {
+    const snapshot: { [field: string]: any } = {};
+    TRACKED_MEAL_FIELDS.forEach(field => {
+      const value = this.normalizeValue(meal?.[field]);
+      if (value !== undefined) {
+        snapshot[field] = value;
+      }
+    });
+    return snapshot;
+  }
+
+  // Fields whose values differ between two snapshots
+  private diffSnapshots(
+    before: { [field: string]: any },
+    after: { [field: string]: any }
+  ): MealFieldChange[] {
+    return TRACKED_MEAL_FIELDS.filter(
+      field => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    ).map(field => ({ field, from: before[field], to: after[field] }));
+  }
+
+  // Record a change to a meal. `before` is the meal prior to the change (null
+  // when it was just created) and `after` its new state (null once deleted).
+  // Updates that change no tracked field are not recorded.
+  public async recordVersion(
+    mealId: string,
+    before: any,
+    after: any,
+    data: RecordMealVersionRequest
+  ): Promise<IMealVersion | null> {
+    try {
+      const beforeSnapshot = before ? this.buildSnapshot(before) : {};
+      const afterSnapshot = after ? this.buildSnapshot(after) : {};
+      const changes =
+        data.changeType === 'delete'
+          ? []
+          : this.diffSnapshots(beforeSnapshot, afterSnapshot);
+
+      if (
+        changes.length === 0 &&
+        (data.changeType === 'update' || data.changeType === 'recompute')
+      ) {
+        return null;
+      }
+
+      // Concurrent changes can pick the same next number; the unique index
+      // rejects all but one, and the others retry with a fresh number
+      for (let attempt = 1; ; attempt++) {
+        const latest = await MealVersion.findOne({ meal: mealId })
+          .sort({ version: -1 })
+          .select('version')
+          .lean();
+
+        const newVersion = new MealVersion({
+          meal: mealId,
+          version: (latest?.version || 0) + 1,
+          changeType: data.changeType,
+          changedBy: data.changedBy,
+          changes,
+          // A deleted meal keeps its last state so it can still be inspected
+          snapshot:
+            data.changeType === 'delete' ? beforeSnapshot : afterSnapshot,
+          revertedFrom: data.revertedFrom,
+        });
+
+        try {
+          const savedVersion = await newVersion.save();
+          return savedVersion.toObject();
+        } catch (error) {
+          if ((error as any)?.code !== 11000 || attempt >= VERSION_RETRIES) {
+            throw error;
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to record meal version: ${error.message}`);
+      }
+      throw new Error('Failed to record meal version');
+    }
+  }
+
+  // Apply an update to every meal matching a filter (e.g. removing a deleted
+  // tag) and record a version for each meal that changed
+  public async recordBulkUpdate(
+    filter: any,
+    update: any,
+    data: RecordMealVersionRequest,
+    options: any = {}
+  ): Promise<number> {
+    const before = await Meal.find(filter).lean();
+    if (before.length === 0) {
+      return 0;
+    }
+
+    const mealIds = before.map((meal: any) => meal._id);
+    await Meal.updateMany({ _id: { $in: mealIds } }, update, options);
+    const after = await Meal.find({ _id: { $in: mealIds } }).lean();
+    const afterMap = new Map(
+      after.map((meal: any) => [meal._id.toString(), meal])
+    );
+
+    for (const meal of before as any[]) {
+      const mealId = meal._id.toString();
+      await this.recordVersion(mealId, meal, afterMap.get(mealId), data);
+    }
+    return before.length;
+  }
+
+  public async getVersions(
+    mealId: string,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{
+    data: IMealVersion[];
+    total: number;
+    page: number;
+    pages: number;
+  }> {
+    const skip = (page - 1) * limit;
+
+    const [data, total] = await Promise.all([
+      MealVersion.find({ meal: mealId })
+        .populate('changedBy', 'name email')
+        .sort({ version: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      MealVersion.countDocuments({ meal: mealId }),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  public async getVersion(
+    mealId: string,
+    version: number
+  ): Promise<IMealVersion | null> {
+    try {
+      const mealVersion = await MealVersion.findOne({
+        meal: mealId,
+        version,
+      }).lean();
+      return mealVersion;
+    } catch (_) {
+      throw new Error('Invalid meal ID format');
+    }
+  }
+}
@@ -0,0 +1,290 @@
+import { DailyNutritionSummary } from '../models/FoodLog';
+import {
+  CreateNutritionGoalRequest,
+  MacroAdherence,
+  MacroAdherenceSet,
+  NutritionAdherence,
+  NutritionTargets,
+  UpdateNutritionGoalRequest,
+} from '../models/NutritionGoal';
+import NutritionGoal, { INutritionGoal } from '../models/NutritionGoalSchema';
+import User from '../models/UserSchema';
+import { DEFAULT_TIMEZONE, TimezoneUtils } from '../utils/timezone';
+import { OwnershipUtils } from '../utils/ownership';
+import { UpdateUtils } from '../utils/update';
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+// Fields of a goal that can be updated; a goal never moves to another user
+const GOAL_UPDATE_FIELDS = [
+  'effectiveFrom',
+  'targets',
+  'weekdayTargets',
+  'mealTypeTargets',
+];
+
+export class NutritionGoalService {
+  // Helper method to get today's date key in the user's timezone
+  private async getTodayDateKey(userId: string): Promise<string> {
+    const user = await User.findById(userId).select('timezone').lean();
+    return TimezoneUtils.toDateKey(
+      Date.now(),
+      user?.timezone || DEFAULT_TIMEZONE
+    );
+  }
+
+  // Helper method to pick the targets that apply on a given local date
+  private resolveTargets(
+    goal: INutritionGoal,
+    dateKey: string
+  ): NutritionTargets {
+    const weekday = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+    const override = (goal.weekdayTargets || []).find(
+      target => target.weekday === weekday
+    );
+    const source = override || goal.targets;
+
+    const targets: NutritionTargets = { calories: source.calories };
+    if (source.protein !== undefined) targets.protein = source.protein;
+    if (source.fat !== undefined) targets.fat = source.fat;
+    if (source.carbs !== undefined) targets.carbs = source.carbs;
+    return targets;
+  }
+
+  private buildMacroAdherence(actual: number, target: number): MacroAdherence {
+    return {
+      target,
+      actual: Math.round(actual * 100) / 100,
+      remaining: Math.max(Math.round((target - actual) * 100) / 100, 0),
+      percentOfGoal: Math.round((actual / target) * 1000) / 10,
+      status: actual > target ? 'over' : 'under',
+    };
+  }
+
+  private buildAdherenceSet(
+    actuals: { calories: number; protein: number; fat: number; carbs: number },
+    targets: NutritionTargets
+  ): MacroAdherenceSet {
+    const adherence: MacroAdherenceSet = {
+      calories: this.buildMacroAdherence(actuals.calories, targets.calories),
+    };
+
+    if (targets.protein !== undefined) {
+      adherence.protein = this.buildMacroAdherence(
+        actuals.protein,
+        targets.protein
+      );
+    }
+    if (targets.fat !== undefined) {
+      adherence.fat = this.buildMacroAdherence(actuals.fat, targets.fat);
+    }
+    if (targets.carbs !== undefined) {
+      adherence.carbs = this.buildMacroAdherence(actuals.carbs, targets.carbs);
+    }
+
+    return adherence;
+  }
+
+  // Compare a daily summary against a goal
+  public buildAdherence(
+    summary: DailyNutritionSummary,
+    goal: INutritionGoal
+  ): NutritionAdherence {
+    const adherence: NutritionAdherence = {
+      ...this.buildAdherenceSet(
+        {
+          calories: summary.totalCalories,
+          protein: summary.totalProtein,
+          fat: summary.totalFat,
+          carbs: summary.totalCarbs,
+        },
+        this.resolveTargets(goal, summary.date)
+      ),
+      mealBreakdown: {},
+    };
+
+    MEAL_TYPES.forEach(mealType => {
+      const mealTargets = goal.mealTypeTargets?.[mealType];
+      if (mealTargets && mealTargets.calories !== undefined) {
+        adherence.mealBreakdown[mealType] = this.buildAdherenceSet(
+          summary.mealBreakdown[mealType],
+          mealTargets
+        );
+      }
+    });
+
+    return adherence;
+  }
+
+  // Attach the goal in effect and adherence to each daily summary
+  public async applyGoals(
+    userId: string,
+    summaries: DailyNutritionSummary[]
+  ): Promise<DailyNutritionSummary[]> {
+    if (summaries.length === 0) {
+      return summaries;
+    }
+
+    const latestDate = summaries.reduce(
+      (latest, summary) => (summary.date > latest ? summary.date : latest),
+      summaries[0].date
+    );
+
+    // Goals sorted newest first, so the first match is the one in effect
+    const goals = await NutritionGoal.find({
+      user: userId,
+      effectiveFrom: { $lte: latestDate },
+    })
+      .sort({ effectiveFrom: -1 })
+      .lean();
+
+    return summaries.map(summary => {
+      const goal = goals.find(g => g.effectiveFrom <= summary.date);
+      if (!goal) {
+        return summary;
+      }
+
+      return {
+        ...summary,
+        goal: this.resolveTargets(goal as INutritionGoal, summary.date),
+        adherence: this.buildAdherence(summary, goal as INutritionGoal),
+      };
+    });
+  }
+
+  public async createGoal(
+    data: CreateNutritionGoalRequest
+  ): Promise<INutritionGoal> {
+    try {
+      const effectiveFrom =
+        data.effectiveFrom || (await this.getTodayDateKey(data.user));
+
+      const existingGoal = await NutritionGoal.findOne({
+        user: data.user,
+        effectiveFrom,
+      });
+      if (existingGoal) {
+        throw new Error(`A goal already starts on ${effectiveFrom}`);
+      }
+
+      const newGoal = new NutritionGoal({
+        user: data.user,
+        effectiveFrom,
+        targets: data.targets,
+        weekdayTargets: data.weekdayTargets || [],
+        mealTypeTargets: data.mealTypeTargets,
+      });
+
+      const savedGoal = await newGoal.save();
+      return savedGoal.toObject();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to create nutrition goal: ${error.message}`);
+      }
+      throw new Error('Failed to create nutrition goal');
+    }
+  }
+
+  public async getGoalById(
+    id: string,
+    userId?: string
+  ): Promise<INutritionGoal | null> {
+    try {
+      const goal = await NutritionGoal.findOne(
+        OwnershipUtils.buildOwnerFilter(id, userId)
+      ).lean();
+      return goal;
+    } catch (_) {
+      throw new Error('Invalid nutrition goal ID format');
+    }
+  }
+
+  public async getGoalsByUser(
+    userId: string,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{
+    data: INutritionGoal[];
+    total: number;
+    page: number;
+    pages: number;
+  }> {
+    const skip = (page - 1) * limit;
+
+    const [data, total] = await Promise.all([
+      NutritionGoal.find({ user: userId })
+        .sort({ effectiveFrom: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      NutritionGoal.countDocuments({ user: userId }),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  public async getActiveGoal(
+    userId: string,
+    date?: string
+  ): Promise<INutritionGoal | null> {
+    try {
+      const dateKey = date || (await this.getTodayDateKey(userId));
+      const goal = await NutritionGoal.findOne({
+        user: userId,
+        effectiveFrom: { $lte: dateKey },
+      })
+        .sort({ effectiveFrom: -1 })
+        .lean();
+      return goal;
+    } catch (_) {
+      throw new Error('Failed to get active nutrition goal');
+    }
+  }
+
+  public async updateGoal(
+    id: string,
+    data: UpdateNutritionGoalRequest,
+    userId?: string
+  ): Promise<INutritionGoal | null> {
+    try {
+      const updateData = UpdateUtils.pickFields(data, GOAL_UPDATE_FIELDS);
+
+      const updatedGoal = await NutritionGoal.findOneAndUpdate(
+        OwnershipUtils.buildOwnerFilter(id, userId),
+        updateData,
+        {
+          new: true,
+          runValidators: true,
+        }
+      ).lean();
+
+      return updatedGoal;
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('duplicate key')) {
+          throw new Error(
+            `A goal already starts on ${data.effectiveFrom || 'that date'}`
+          );
+        }
+        throw new Error(`Failed to update nutrition goal: ${error.message}`);
+      }
+      throw new Error('Failed to update nutrition goal');
+    }
+  }
+
+  public async deleteGoal(id: string, userId?: string): Promise<boolean> {
+    try {
+      const result = await NutritionGoal.findOneAndDelete(
+        OwnershipUtils.buildOwnerFilter(id, userId)
+      );
+      return !!result;
+    } catch (_) {
+      throw new Error('Failed to delete nutrition goal');
+    }
+  }
+}
@@ -1,11 +1,90 @@
+import mongoose from 'mongoose';
 import QuantityUnit, { IQuantityUnit } from '../models/QuantityUnitSchema';
 import {
   CreateQuantityUnitRequest,
   UpdateQuantityUnitRequest,
+  QuantityUnitConversion,
   QuantityUnitSearchParams,
 } from '../models/QuantityUnit';
+import {
+  DeleteDependent,
+  DeleteResult,
+  DeleteStrategy,
+} from '../models/Deletion';
+import FoodLog from '../models/FoodLogSchema';
+import Meal from '../models/MealSchema';
+import { DeletionUtils } from '../utils/deletion';
+import { UnitConversionUtils } from '../utils/units';
+import { MealVersionService } from './mealVersionService';
+
+// Archived units still resolve by ID or short name, but are not listed
+const ACTIVE_UNITS = { isActive: { $ne: false } };
 
 export class QuantityUnitService {
+  private mealVersionService: MealVersionService;
+
+  constructor() {
+    this.mealVersionService = new MealVersionService();
+  }
+
+  // Helper method to find a unit by ID or short name
+  private async findUnit(idOrShortName: string): Promise<IQuantityUnit | null> {
+    if (mongoose.Types.ObjectId.isValid(idOrShortName)) {
+      const unit = await QuantityUnit.findById(idOrShortName).lean();
+      if (unit) {
+        return unit;
+      }
+    }
+    return QuantityUnit.findOne({ shortName: idOrShortName }).lean();
+  }
+
+  // Convert a value between two units (IDs or short names). A density in
+  // grams per millilitre allows converting between volume and mass.
+  public async convertAmount(
+    value: number,
+    from: string,
+    to: string,
+    density?: number
+  ): Promise<QuantityUnitConversion> {
+    const [fromUnit, toUnit] = await Promise.all([
+      this.findUnit(from),
+      this.findUnit(to),
+    ]);
+    if (!fromUnit) {
+      throw new Error(`Quantity unit not found: ${from}`);
+    }
+    if (!toUnit) {
+      throw new Error(`Quantity unit not found: ${to}`);
+    }
+
+    const sameUnit = (fromUnit._id as any).equals(toUnit._id);
+    const result = sameUnit
+      ? value
+      : UnitConversionUtils.convert(value, fromUnit, toUnit, density);
+    if (result === null) {
+      throw new Error(
+        `Cannot convert ${fromUnit.shortName} to ${toUnit.shortName}${density ? '' : ' without a density'}`
+      );
+    }
+
+    const describe = (unit: IQuantityUnit) => ({
+      _id: (unit._id as any).toString(),
+      name: unit.name,
+      shortName: unit.shortName,
+      dimension: UnitConversionUtils.resolveConversion(unit)?.dimension,
+    });
+    const fromDimension = describe(fromUnit).dimension;
+    const toDimension = describe(toUnit).dimension;
+
+    return {
+      value,
+      result,
+      from: describe(fromUnit),
+      to: describe(toUnit),
+      ...(fromDimension !== toDimension && { density }),
+    };
+  }
+
   public async createQuantityUnit(
     data: CreateQuantityUnitRequest
   ): Promise<IQuantityUnit> {
@@ -92,11 +171,84 @@ export class QuantityUnitService {
     }
   }
 
-  public async deleteQuantityUnit(id: string): Promise<boolean> {
+  // Records using a unit. Meals must always have a unit, so they block a
+  // cascade; amounts given in the unit fall back to their derived servings.
+  private async findQuantityUnitDependents(
+    id: string
+  ): Promise<DeleteDependent[]> {
+    const dependents = await Promise.all([
+      DeletionUtils.findDependent('meals', Meal, { quantityUnit: id }, true),
+      DeletionUtils.findDependent(
+        'recipes',
+        Meal,
+        { 'ingredients.quantityUnit': id },
+        false
+      ),
+      DeletionUtils.findDependent(
+        'foodLogs',
+        FoodLog,
+        { $or: [{ quantityUnit: id }, { 'nutrition.quantityUnit': id }] },
+        false,
+        { withDeleted: true }
+      ),
+    ]);
+    return dependents.filter(
+      (dependent): dependent is DeleteDependent => dependent !== null
+    );
+  }
+
+  public async deleteQuantityUnit(
+    id: string,
+    strategy: DeleteStrategy = 'block'
+  ): Promise<DeleteResult | null> {
     try {
-      const result = await QuantityUnit.findByIdAndDelete(id);
-      return !!result;
-    } catch (_) {
+      const unit = await QuantityUnit.findById(id).lean();
+      if (!unit) {
+        return null;
+      }
+
+      const dependents = await this.findQuantityUnitDependents(id);
+
+      // Archived units keep converting but are no longer listed
+      if (strategy === 'archive') {
+        await QuantityUnit.findByIdAndUpdate(id, { isActive: false });
+        return { strategy, outcome: 'archived', dependents };
+      }
+
+      const blocked = DeletionUtils.blockedResult(strategy, dependents);
+      if (blocked) {
+        return blocked;
+      }
+
+      if (strategy === 'cascade') {
+        await this.mealVersionService.recordBulkUpdate(
+          { 'ingredients.quantityUnit': id },
+          {
+            $unset: {
+              'ingredients.$[ingredient].amount': 1,
+              'ingredients.$[ingredient].quantityUnit': 1,
+            },
+          },
+          { changeType: 'update' },
+          { arrayFilters: [{ 'ingredient.quantityUnit': unit._id }] }
+        );
+        // Trashed logs are rewritten too, so they stay valid if restored
+        await FoodLog.updateMany(
+          { quantityUnit: id },
+          { $unset: { amount: 1, quantityUnit: 1 } }
+        ).setOptions({ withDeleted: true });
+        await FoodLog.updateMany(
+          { 'nutrition.quantityUnit': id },
+          { $unset: { 'nutrition.quantityUnit': 1 } }
+        ).setOptions({ withDeleted: true });
+      }
+
+      await QuantityUnit.findByIdAndDelete(id);
+      return { strategy, outcome: 'deleted', dependents };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to delete quantity unit: ${error.message}`);
+      }
       throw new Error('Failed to delete quantity unit');
     }
   }
@@ -114,8 +266,12 @@ export class QuantityUnitService {
       const skip = (page - 1) * limit;
 
       const [data, total] = await Promise.all([
-        QuantityUnit.find({}).sort({ name: 1 }).skip(skip).limit(limit).lean(),
-        QuantityUnit.countDocuments({}),
+        QuantityUnit.find(ACTIVE_UNITS)
+          .sort({ name: 1 })
+          .skip(skip)
+          .limit(limit)
+          .lean(),
+        QuantityUnit.countDocuments(ACTIVE_UNITS),
       ]);
 
       return {
@@ -138,7 +294,7 @@ export class QuantityUnitService {
     const { name, shortName, page = 1, limit = 10 } = params;
     const skip = (page - 1) * limit;
 
-    let searchQuery: any = {};
+    let searchQuery: any = { ...ACTIVE_UNITS };
 
     if (name) {
       searchQuery.name = { $regex: name, $options: 'i' };
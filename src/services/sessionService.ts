@@ -0,0 +1,266 @@
+import mongoose from 'mongoose';
+import {
+  ActiveSession,
+  SessionClient,
+  SessionRevokeReason,
+  SessionTokens,
+} from '../models/Session';
+import Session, { ROTATED_TOKEN_HISTORY } from '../models/SessionSchema';
+import User, { IUser } from '../models/UserSchema';
+import { AuthUtils } from '../utils/auth';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+// How long an unused session stays valid
+const REFRESH_TOKEN_TTL_MS =
+  (parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '', 10) ||
+    DEFAULT_REFRESH_TOKEN_TTL_DAYS) * DAY_IN_MS;
+// How stale lastUsedAt may get before a request updates it
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export class SessionService {
+  // Helper method to split a refresh token into its session ID and secret.
+  // Refresh tokens look like `<session ID>.<random secret>`.
+  private parseRefreshToken(
+    refreshToken: string
+  ): { sessionId: string; secret: string } | null {
+    if (typeof refreshToken !== 'string') {
+      return null;
+    }
+    const [sessionId, secret, ...rest] = refreshToken.split('.');
+    if (!secret || rest.length > 0 || !mongoose.isValidObjectId(sessionId)) {
+      return null;
+    }
+    return { sessionId, secret };
+  }
+
+  // Helper method to keep only the client details that were given
+  private clientFields(client: SessionClient): SessionClient {
+    const fields: SessionClient = {};
+    if (client.deviceLabel?.trim()) {
+      fields.deviceLabel = client.deviceLabel.trim().slice(0, 100);
+    }
+    if (client.userAgent) {
+      fields.userAgent = client.userAgent.slice(0, 500);
+    }
+    if (client.ip) {
+      fields.ip = client.ip;
+    }
+    return fields;
+  }
+
+  // Start a session for a user who just logged in or registered
+  public async createSession(
+    user: IUser,
+    client: SessionClient = {}
+  ): Promise<SessionTokens> {
+    try {
+      const secret = AuthUtils.generateOpaqueToken();
+      const session = await new Session({
+        user: user._id,
+        tokenHash: AuthUtils.hashToken(secret),
+        ...this.clientFields(client),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      }).save();
+
+      const sessionId = (session._id as any).toString();
+      return {
+        token: AuthUtils.generateToken(user, sessionId),
+        refreshToken: `${sessionId}.${secret}`,
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to create session: ${error.message}`);
+      }
+      throw new Error('Failed to create session');
+    }
+  }
+
+  // Exchange a refresh token for a new access and refresh token. Each
+  // refresh token works once: presenting one that was already rotated means
+  // it was copied, so the whole session is revoked.
+  public async refreshSession(
+    refreshToken: string,
+    client: SessionClient = {}
+  ): Promise<SessionTokens> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const now = new Date();
+    const tokenHash = AuthUtils.hashToken(parsed.secret);
+    const newSecret = AuthUtils.generateOpaqueToken();
+
+    // Rotate atomically, so two requests with the same token cannot both win
+    const session = await Session.findOneAndUpdate(
+      {
+        _id: parsed.sessionId,
+        tokenHash,
+        revokedAt: null,
+        expiresAt: { $gt: now },
+      },
+      {
+        $set: {
+          tokenHash: AuthUtils.hashToken(newSecret),
+          lastUsedAt: now,
+          expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+          ...this.clientFields(client),
+        },
+        $push: {
+          rotatedTokenHashes: {
+            $each: [tokenHash],
+            $slice: -ROTATED_TOKEN_HISTORY,
+          },
+        },
+      },
+      { new: true }
+    );
+
+    if (!session) {
+      const reused = await Session.findOne({
+        _id: parsed.sessionId,
+        rotatedTokenHashes: tokenHash,
+      });
+      if (reused) {
+        if (!reused.revokedAt) {
+          await this.revokeSession(parsed.sessionId, 'reuse');
+        }
+        throw new Error('Refresh token reuse detected');
+      }
+      throw new Error('Invalid refresh token');
+    }
+
+    const user = await User.findById(session.user);
+    if (!user) {
+      await this.revokeSession(parsed.sessionId, 'revoked');
+      throw new Error('Invalid refresh token');
+    }
+
+    return {
+      token: AuthUtils.generateToken(user, parsed.sessionId),
+      refreshToken: `${parsed.sessionId}.${newSecret}`,
+    };
+  }
+
+  // Check that a session is still active for the user, recording it as used.
+  // Called on every authenticated request, so revoking a session locks out
+  // its access tokens immediately.
+  public async touchSession(
+    sessionId: string,
+    userId: string
+  ): Promise<boolean> {
+    if (!mongoose.isValidObjectId(sessionId)) {
+      return false;
+    }
+
+    const now = new Date();
+    const session = await Session.findOne({
+      _id: sessionId,
+      user: userId,
+      revokedAt: null,
+      expiresAt: { $gt: now },
+    }).select('lastUsedAt');
+    if (!session) {
+      return false;
+    }
+
+    // Only write when the value is noticeably out of date
+    if (
+      now.getTime() - session.lastUsedAt.getTime() >
+      LAST_USED_RESOLUTION_MS
+    ) {
+      await Session.updateOne(
+        { _id: sessionId },
+        { $set: { lastUsedAt: now } }
+      );
+    }
+    return true;
+  }
+
+  // List a user's active sessions, most recently used first
+  public async getActiveSessions(
+    userId: string,
+    currentSessionId?: string
+  ): Promise<ActiveSession[]> {
+    try {
+      const sessions = await Session.find({
+        user: userId,
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+        .sort({ lastUsedAt: -1 })
+        .lean();
+
+      return sessions.map(session => ({
+        id: session._id.toString(),
+        deviceLabel: session.deviceLabel,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === currentSessionId,
+      }));
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to fetch sessions: ${error.message}`);
+      }
+      throw new Error('Failed to fetch sessions');
+    }
+  }
+
+  // Revoke one session, optionally only if it belongs to the given user.
+  // Returns false when no active session matched.
+  public async revokeSession(
+    sessionId: string,
+    reason: SessionRevokeReason,
+    userId?: string
+  ): Promise<boolean> {
+    if (!mongoose.isValidObjectId(sessionId)) {
+      return false;
+    }
+
+    const filter: any = { _id: sessionId, revokedAt: null };
+    if (userId) {
+      filter.user = userId;
+    }
+    const result = await Session.updateOne(filter, {
+      $set: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return result.modifiedCount > 0;
+  }
+
+  // Revoke the session a refresh token belongs to (logout)
+  public async revokeSessionByRefreshToken(
+    refreshToken: string,
+    reason: SessionRevokeReason
+  ): Promise<boolean> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      return false;
+    }
+
+    // Only the current token of a session may end it
+    const session = await Session.findOne({
+      _id: parsed.sessionId,
+      tokenHash: AuthUtils.hashToken(parsed.secret),
+    }).select('_id');
+    if (!session) {
+      return false;
+    }
+    return this.revokeSession(parsed.sessionId, reason);
+  }
+
+  // Revoke every active session of a user, returning how many were revoked
+  public async revokeAllSessions(
+    userId: string,
+    reason: SessionRevokeReason
+  ): Promise<number> {
+    const result = await Session.updateMany(
+      { user: userId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount;
+  }
+}
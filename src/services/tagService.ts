@@ -1,11 +1,25 @@
 import Tag, { ITag } from '../models/TagSchema';
+import Meal from '../models/MealSchema';
 import {
   CreateTagRequest,
   UpdateTagRequest,
   TagSearchParams,
 } from '../models/Tag';
+import {
+  DeleteDependent,
+  DeleteResult,
+  DeleteStrategy,
+} from '../models/Deletion';
+import { DeletionUtils } from '../utils/deletion';
+import { MealVersionService } from './mealVersionService';
 
 export class TagService {
+  private mealVersionService: MealVersionService;
+
+  constructor() {
+    this.mealVersionService = new MealVersionService();
+  }
+
   public async getAllTags(
     page: number = 1,
     limit: number = 10
@@ -90,11 +104,54 @@ export class TagService {
     }
   }
 
-  public async deleteTag(id: string): Promise<boolean> {
+  // Meals tagged with a tag; a cascade pulls the tag from them
+  private async findTagDependents(id: string): Promise<DeleteDependent[]> {
+    const meals = await DeletionUtils.findDependent(
+      'meals',
+      Meal,
+      { tags: id },
+      false
+    );
+    return meals ? [meals] : [];
+  }
+
+  public async deleteTag(
+    id: string,
+    strategy: DeleteStrategy = 'block'
+  ): Promise<DeleteResult | null> {
     try {
-      const result = await Tag.findByIdAndDelete(id);
-      return !!result;
-    } catch (_) {
+      const tag = await Tag.findById(id).lean();
+      if (!tag) {
+        return null;
+      }
+
+      const dependents = await this.findTagDependents(id);
+
+      // Archived tags stay on their meals but are no longer offered
+      if (strategy === 'archive') {
+        await Tag.findByIdAndUpdate(id, { isActive: false });
+        return { strategy, outcome: 'archived', dependents };
+      }
+
+      const blocked = DeletionUtils.blockedResult(strategy, dependents);
+      if (blocked) {
+        return blocked;
+      }
+
+      if (strategy === 'cascade') {
+        await this.mealVersionService.recordBulkUpdate(
+          { tags: id },
+          { $pull: { tags: id } },
+          { changeType: 'update' }
+        );
+      }
+
+      await Tag.findByIdAndDelete(id);
+      return { strategy, outcome: 'deleted', dependents };
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to delete tag: ${error.message}`);
+      }
       throw new Error('Failed to delete tag');
     }
   }
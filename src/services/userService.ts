@@ -1,10 +1,18 @@
-import User, { IUser } from '../models/UserSchema';
+import User, { IUser, hashPassword } from '../models/UserSchema';
+import { AuthUtils } from '../utils/auth';
 import {
   CreateUserRequest,
   UpdateUserRequest,
+  UserRole,
   UserSearchParams,
 } from '../models/User';
 
+// How long an email verification link stays valid
+export const EMAIL_VERIFICATION_EXPIRES_IN_HOURS = 24;
+
+// How long a password reset link stays valid
+export const PASSWORD_RESET_EXPIRES_IN_MINUTES = 60;
+
 export class UserService {
   public async getAllUsers(
     page: number = 1,
@@ -79,7 +87,13 @@ export class UserService {
         }
       }
 
-      const updateData: any = { ...data };
+      // Only profile fields; roles and passwords have their own endpoints
+      const updateData: any = {};
+      for (const field of ['name', 'email', 'timezone'] as const) {
+        if (data[field] !== undefined) {
+          updateData[field] = data[field];
+        }
+      }
       if (updateData.email) {
         updateData.email = updateData.email.toLowerCase().trim();
       }
@@ -110,6 +124,181 @@ export class UserService {
     }
   }
 
+  // Issue a new email verification token for a user, replacing any pending
+  // one. Only the token's hash is stored.
+  public async createEmailVerificationToken(user: IUser): Promise<string> {
+    try {
+      const token = AuthUtils.generateOpaqueToken();
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            emailVerificationTokenHash: AuthUtils.hashToken(token),
+            emailVerificationExpiresAt: new Date(
+              Date.now() + EMAIL_VERIFICATION_EXPIRES_IN_HOURS * 60 * 60 * 1000
+            ),
+          },
+        }
+      );
+      return token;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(
+          `Failed to create verification token: ${error.message}`
+        );
+      }
+      throw new Error('Failed to create verification token');
+    }
+  }
+
+  // Mark the email of the user a verification token was issued to as
+  // verified. Returns null for unknown or expired tokens.
+  public async verifyEmail(token: string): Promise<IUser | null> {
+    try {
+      if (typeof token !== 'string' || !token) {
+        return null;
+      }
+
+      const user = await User.findOneAndUpdate(
+        {
+          emailVerificationTokenHash: AuthUtils.hashToken(token),
+          emailVerificationExpiresAt: { $gt: new Date() },
+        },
+        {
+          $set: { emailVerified: true },
+          $unset: {
+            emailVerificationTokenHash: 1,
+            emailVerificationExpiresAt: 1,
+          },
+        },
+        { new: true }
+      );
+      return user;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to verify email: ${error.message}`);
+      }
+      throw new Error('Failed to verify email');
+    }
+  }
+
+  // Issue a new password reset token for a user, replacing any pending one.
+  // Only the token's hash is stored.
+  public async createPasswordResetToken(user: IUser): Promise<string> {
+    try {
+      const token = AuthUtils.generateOpaqueToken();
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            passwordResetTokenHash: AuthUtils.hashToken(token),
+            passwordResetExpiresAt: new Date(
+              Date.now() + PASSWORD_RESET_EXPIRES_IN_MINUTES * 60 * 1000
+            ),
+          },
+        }
+      );
+      return token;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to create reset token: ${error.message}`);
+      }
+      throw new Error('Failed to create reset token');
+    }
+  }
+
+  // Set a new password with a reset token. The token is consumed in the same
+  // update that sets the password, so it works once even under concurrent
+  // requests and stays valid if the update fails.
+  // Returns null for unknown, used or expired tokens.
+  public async resetPassword(
+    token: string,
+    password: string
+  ): Promise<IUser | null> {
+    try {
+      if (typeof token !== 'string' || !token) {
+        return null;
+      }
+
+      const tokenFilter = {
+        passwordResetTokenHash: AuthUtils.hashToken(token),
+        passwordResetExpiresAt: { $gt: new Date() },
+      };
+      // Skip hashing the password for tokens that cannot match
+      if (!(await User.exists(tokenFilter))) {
+        return null;
+      }
+
+      // Receiving the reset link also proves the user owns the email address
+      const user = await User.findOneAndUpdate(
+        tokenFilter,
+        {
+          $set: {
+            password: await hashPassword(password),
+            emailVerified: true,
+          },
+          $unset: { passwordResetTokenHash: 1, passwordResetExpiresAt: 1 },
+        },
+        { new: true }
+      );
+      return user;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to reset password: ${error.message}`);
+      }
+      throw new Error('Failed to reset password');
+    }
+  }
+
+  // Give a user a role. Returns null if the user does not exist.
+  public async grantRole(id: string, role: UserRole): Promise<IUser | null> {
+    try {
+      const user = await User.findByIdAndUpdate(
+        id,
+        { $addToSet: { roles: role } },
+        { new: true, runValidators: true }
+      ).lean();
+      return user;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to grant role: ${error.message}`);
+      }
+      throw new Error('Failed to grant role');
+    }
+  }
+
+  // Take a role away from a user. The base user role stays, and the last
+  // admin keeps theirs so the roles can still be managed.
+  public async revokeRole(id: string, role: UserRole): Promise<IUser | null> {
+    try {
+      if (role === 'user') {
+        throw new Error('The user role cannot be revoked');
+      }
+
+      if (role === 'admin') {
+        const admins = await User.find({ roles: 'admin' })
+          .select('_id')
+          .limit(2)
+          .lean();
+        if (admins.length === 1 && admins[0]._id.toString() === id) {
+          throw new Error('Cannot revoke the admin role from the last admin');
+        }
+      }
+
+      const user = await User.findByIdAndUpdate(
+        id,
+        { $pull: { roles: role } },
+        { new: true }
+      ).lean();
+      return user;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to revoke role: ${error.message}`);
+      }
+      throw new Error('Failed to revoke role');
+    }
+  }
+
   public async searchUsers(
     params: UserSearchParams
   ): Promise<{ data: IUser[]; total: number; page: number; pages: number }> {
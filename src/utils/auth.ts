@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { IUser } from '../models/UserSchema';
 
@@ -8,16 +9,18 @@ const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
 export interface JWTPayload {
   userId: string;
   email: string;
+  sessionId?: string; // Session the token was issued for
   iat?: number;
   exp?: number;
 }
 
 export class AuthUtils {
   // Generate JWT token
-  public static generateToken(user: IUser): string {
+  public static generateToken(user: IUser, sessionId?: string): string {
     const payload: JWTPayload = {
       userId: (user._id as any).toString(),
       email: user.email,
+      ...(sessionId && { sessionId }),
     };
 
     return jwt.sign(payload, JWT_SECRET, {
@@ -34,61 +37,14 @@ export class AuthUtils {
     }
   }
 
-  // Generate refresh token
-  public static generateRefreshToken(user: IUser): string {
-    const payload = {
-      userId: (user._id as any).toString(),
-      type: 'refresh',
-    };
-
-    return jwt.sign(payload, JWT_SECRET, {
-      expiresIn: '30d',
-    } as jwt.SignOptions);
+  // Generate an opaque random token, e.g. the secret part of a refresh token
+  public static generateOpaqueToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
   }
 
-  // Verify refresh token
-  public static verifyRefreshToken(token: string): {
-    userId: string;
-    type: string;
-  } {
-    try {
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
-      if (decoded.type !== 'refresh') {
-        throw new Error('Invalid token type');
-      }
-      return decoded;
-    } catch (_) {
-      throw new Error('Invalid or expired refresh token');
-    }
-  }
-
-  // Generate password reset token
-  public static generatePasswordResetToken(user: IUser): string {
-    const payload = {
-      userId: (user._id as any).toString(),
-      email: user.email,
-      type: 'password-reset',
-    };
-
-    return jwt.sign(payload, JWT_SECRET, {
-      expiresIn: '1h', // Short expiry for security
-    } as jwt.SignOptions);
-  }
-
-  // Verify password reset token
-  public static verifyPasswordResetToken(token: string): {
-    userId: string;
-    email: string;
-    type: string;
-  } {
-    try {
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
-      if (decoded.type !== 'password-reset') {
-        throw new Error('Invalid token type');
-      }
-      return decoded;
-    } catch (_) {
-      throw new Error('Invalid or expired password reset token');
-    }
+  // Hash an opaque token for storage, so stored hashes cannot be used as
+  // tokens if the database leaks
+  public static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
   }
 }
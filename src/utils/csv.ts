@@ -0,0 +1,119 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Characters that force a field to be quoted
+const NEEDS_QUOTING = /[",\r\n]/;
+
+// Leading characters that make spreadsheets read a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export class CsvUtils {
+  // Format a single field, quoting it when it contains a delimiter, quote or
+  // line break (RFC 4180). Missing values become empty fields.
+  public static formatField(value: CsvValue): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    const text = String(value);
+    return NEEDS_QUOTING.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // Prefix text that a spreadsheet would run as a formula with a quote, so
+  // user-entered values such as notes are shown as text. Numbers are kept.
+  public static neutralizeFormula(value: CsvValue): CsvValue {
+    return typeof value === 'string' && FORMULA_PREFIX.test(value)
+      ? `'${value}`
+      : value;
+  }
+
+  // Format a row of fields as one CSV line, including the line break
+  public static formatRow(values: CsvValue[]): string {
+    return values.map(value => CsvUtils.formatField(value)).join(',') + '\r\n';
+  }
+
+  // Parse CSV text into rows of fields (RFC 4180). Quoted fields may contain
+  // delimiters, doubled quotes and line breaks; a leading byte order mark and
+  // a trailing line break are ignored.
+  public static parse(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        i++;
+        continue;
+      }
+
+      if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+      } else {
+        field += char;
+      }
+      i++;
+    }
+
+    if (inQuotes) {
+      throw new Error('Invalid CSV: unterminated quoted field');
+    }
+
+    // Last line without a trailing line break
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  // Parse CSV text arriving in chunks (e.g. a file stream) into rows like
+  // parse, without holding the whole text in memory. Rows are parsed up to
+  // the last line break outside quotes, the rest waits for the next chunk.
+  public static async *parseStream(
+    chunks: AsyncIterable<string>
+  ): AsyncGenerator<string[]> {
+    let pending = '';
+    let inQuotes = false;
+    for await (const chunk of chunks) {
+      let end = -1;
+      for (let i = 0; i < chunk.length; i++) {
+        if (chunk[i] === '"') {
+          inQuotes = !inQuotes;
+        } else if (chunk[i] === '\n' && !inQuotes) {
+          end = i;
+        }
+      }
+      if (end < 0) {
+        pending += chunk;
+        continue;
+      }
+      yield* CsvUtils.parse(pending + chunk.slice(0, end + 1));
+      pending = chunk.slice(end + 1);
+    }
+    yield* CsvUtils.parse(pending);
+  }
+}
@@ -0,0 +1,64 @@
+import { Model } from 'mongoose';
+import {
+  DELETE_STRATEGIES,
+  DeleteDependent,
+  DeleteResult,
+  DeleteStrategy,
+} from '../models/Deletion';
+
+const EXAMPLE_ID_LIMIT = 20;
+
+export class DeletionUtils {
+  // Check if a value is a supported delete strategy
+  public static isValidStrategy(strategy: any): strategy is DeleteStrategy {
+    return DELETE_STRATEGIES.includes(strategy);
+  }
+
+  // Count the documents of a model matching a reference filter, returning
+  // null when nothing references the record. Query options reach the
+  // model's hooks, e.g. { withDeleted: true } to count trashed food logs.
+  public static async findDependent(
+    type: string,
+    model: Model<any>,
+    filter: any,
+    blocking: boolean,
+    queryOptions: any = {}
+  ): Promise<DeleteDependent | null> {
+    const [count, examples] = await Promise.all([
+      model.countDocuments(filter).setOptions(queryOptions),
+      model
+        .find(filter)
+        .setOptions(queryOptions)
+        .select('_id')
+        .limit(EXAMPLE_ID_LIMIT)
+        .lean(),
+    ]);
+
+    if (count === 0) {
+      return null;
+    }
+
+    return {
+      type,
+      count,
+      ids: examples.map((doc: any) => doc._id.toString()),
+      blocking,
+    };
+  }
+
+  // Decide whether a delete has to stop: with `block` any dependent stops
+  // it, with `cascade` only dependents whose references cannot be removed
+  public static blockedResult(
+    strategy: DeleteStrategy,
+    dependents: DeleteDependent[]
+  ): DeleteResult | null {
+    const blockers =
+      strategy === 'block'
+        ? dependents
+        : dependents.filter(dependent => dependent.blocking);
+
+    return blockers.length > 0
+      ? { strategy, outcome: 'blocked', dependents }
+      : null;
+  }
+}
@@ -0,0 +1,95 @@
+// Characters allowed between JSON tokens, plus a byte order mark
+const WHITESPACE = new Set([' ', '\t', '\n', '\r', '\uFEFF']);
+
+export class JsonStreamUtils {
+  // Parse the items of JSON arrays from text arriving in chunks (e.g. a file
+  // stream), without holding the whole document in memory. Yields the items
+  // of a top-level array, or of the arrays under `keys` of a top-level
+  // object. Only the items themselves are parsed, everything else is skipped.
+  public static async *parseArrayItems(
+    chunks: AsyncIterable<string>,
+    keys: string[] = []
+  ): AsyncGenerator<any> {
+    let topLevel = '';
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let key = ''; // Last string of the top-level object
+    let itemDepth = 0; // Depth inside the array being read, 0 outside
+    let itemParts: string[] = [];
+    let inItem = false;
+
+    const parseItem = (text: string): any => {
+      try {
+        return JSON.parse(text);
+      } catch (_) {
+        throw new Error('Invalid JSON file');
+      }
+    };
+
+    for await (const chunk of chunks) {
+      let itemStart = 0;
+      for (let i = 0; i < chunk.length; i++) {
+        const char = chunk[i];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === '\\') {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+          } else if (topLevel === '{' && depth === 1) {
+            key += char;
+          }
+          continue;
+        }
+
+        if (depth === itemDepth && itemDepth > 0) {
+          if (inItem && (char === ',' || char === ']')) {
+            itemParts.push(chunk.slice(itemStart, i));
+            yield parseItem(itemParts.join(''));
+            itemParts = [];
+            inItem = false;
+          } else if (!inItem && char !== ',' && !WHITESPACE.has(char)) {
+            inItem = char !== ']';
+            itemStart = i;
+          }
+        }
+
+        if (char === '"') {
+          inString = true;
+          key = topLevel === '{' && depth === 1 ? '' : key;
+        } else if (char === '{' || char === '[') {
+          if (depth === 0) {
+            topLevel = char;
+            itemDepth = char === '[' ? 1 : 0;
+          } else if (
+            depth === 1 &&
+            topLevel === '{' &&
+            char === '[' &&
+            keys.includes(key)
+          ) {
+            itemDepth = 2;
+          }
+          depth++;
+        } else if (char === '}' || char === ']') {
+          depth--;
+          if (depth < 0) {
+            throw new Error('Invalid JSON file');
+          }
+          if (depth === itemDepth - 1) {
+            itemDepth = 0;
+          }
+        }
+      }
+      if (inItem) {
+        itemParts.push(chunk.slice(itemStart));
+      }
+    }
+
+    if (depth !== 0 || inString) {
+      throw new Error('Invalid JSON file');
+    }
+  }
+}
@@ -0,0 +1,69 @@
+export type MicronutrientKey =
+  | 'fiber'
+  | 'sugar'
+  | 'saturatedFat'
+  | 'sodium'
+  | 'cholesterol'
+  | 'potassium'
+  | 'vitaminA'
+  | 'vitaminC'
+  | 'vitaminD'
+  | 'vitaminB12'
+  | 'calcium'
+  | 'iron'
+  | 'magnesium'
+  | 'zinc';
+
+// Optional per-serving amounts, in the unit listed in MICRONUTRIENTS
+export type Micronutrients = { [key in MicronutrientKey]?: number };
+
+export type MicronutrientTotals = { [key in MicronutrientKey]: number };
+
+export interface MicronutrientDefinition {
+  label: string;
+  unit: 'g' | 'mg' | 'mcg';
+  max: number; // Upper bound for a single serving
+}
+
+export const MICRONUTRIENTS: {
+  [key in MicronutrientKey]: MicronutrientDefinition;
+} = {
+  fiber: { label: 'Fiber', unit: 'g', max: 1000 },
+  sugar: { label: 'Sugar', unit: 'g', max: 1000 },
+  saturatedFat: { label: 'Saturated fat', unit: 'g', max: 1000 },
+  sodium: { label: 'Sodium', unit: 'mg', max: 100000 },
+  cholesterol: { label: 'Cholesterol', unit: 'mg', max: 10000 },
+  potassium: { label: 'Potassium', unit: 'mg', max: 100000 },
+  vitaminA: { label: 'Vitamin A', unit: 'mcg', max: 100000 },
+  vitaminC: { label: 'Vitamin C', unit: 'mg', max: 100000 },
+  vitaminD: { label: 'Vitamin D', unit: 'mcg', max: 10000 },
+  vitaminB12: { label: 'Vitamin B12', unit: 'mcg', max: 10000 },
+  calcium: { label: 'Calcium', unit: 'mg', max: 100000 },
+  iron: { label: 'Iron', unit: 'mg', max: 10000 },
+  magnesium: { label: 'Magnesium', unit: 'mg', max: 100000 },
+  zinc: { label: 'Zinc', unit: 'mg', max: 10000 },
+};
+
+export const MICRONUTRIENT_KEYS = Object.keys(
+  MICRONUTRIENTS
+) as MicronutrientKey[];
+
+export class NutrientUtils {
+  // Totals with every micronutrient set to zero
+  public static emptyMicronutrientTotals(): MicronutrientTotals {
+    const totals = {} as MicronutrientTotals;
+    MICRONUTRIENT_KEYS.forEach(key => {
+      totals[key] = 0;
+    });
+    return totals;
+  }
+
+  // Query parameter names for a micronutrient range, e.g. minFiber/maxFiber
+  public static rangeParamNames(key: MicronutrientKey): {
+    min: string;
+    max: string;
+  } {
+    const suffix = key.charAt(0).toUpperCase() + key.slice(1);
+    return { min: `min${suffix}`, max: `max${suffix}` };
+  }
+}
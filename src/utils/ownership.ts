@@ -0,0 +1,27 @@
+import { Request } from 'express';
+import { isAdmin } from '../middleware/auth';
+
+export class OwnershipUtils {
+  // Build a by-ID filter, optionally scoped to an owner
+  public static buildOwnerFilter(id: string, userId?: string): any {
+    const filter: any = { _id: id };
+    if (userId) {
+      filter.user = userId;
+    }
+    return filter;
+  }
+
+  // Resolve the owner of a new record (admins may create records for another
+  // user by setting `user` in the body)
+  public static resolveOwner(req: Request): string {
+    if (isAdmin(req.user) && req.body.user) {
+      return req.body.user;
+    }
+    return req.user._id.toString();
+  }
+
+  // Restrict lookups to the caller's own records unless they are an admin
+  public static getOwnerScope(req: Request): string | undefined {
+    return isAdmin(req.user) ? undefined : req.user._id.toString();
+  }
+}
@@ -0,0 +1,158 @@
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'UTC';
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 (Sunday) - 6 (Saturday)
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Cache formatters, creating them is comparatively expensive
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+const DATE_KEY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export class TimezoneUtils {
+  // Check if a string is a real calendar date in YYYY-MM-DD format
+  public static isValidDateKey(dateKey: string): boolean {
+    if (typeof dateKey !== 'string' || !DATE_KEY_REGEX.test(dateKey)) {
+      return false;
+    }
+
+    // Out of range months and days roll over, e.g. 2024-02-30 to March 1st
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return (
+      date.getUTCFullYear() === year &&
+      date.getUTCMonth() === month - 1 &&
+      date.getUTCDate() === day
+    );
+  }
+
+  // Check if a string is a valid IANA timezone (e.g. 'Asia/Kolkata')
+  public static isValidTimezone(timezone: string): boolean {
+    if (!timezone || typeof timezone !== 'string') {
+      return false;
+    }
+
+    try {
+      getFormatter(timezone);
+      return true;
+    } catch (_) {
+      return false;
+    }
+  }
+
+  // Get the wall-clock date parts of an epoch timestamp in a timezone
+  public static getDateParts(epoch: number, timezone: string): ZonedDateParts {
+    const parts: { [key: string]: string } = {};
+    getFormatter(timezone)
+      .formatToParts(new Date(epoch))
+      .forEach(part => {
+        parts[part.type] = part.value;
+      });
+
+    return {
+      year: parseInt(parts.year),
+      month: parseInt(parts.month),
+      day: parseInt(parts.day),
+      hour: parseInt(parts.hour),
+      minute: parseInt(parts.minute),
+      second: parseInt(parts.second),
+      weekday: WEEKDAYS.indexOf(parts.weekday),
+    };
+  }
+
+  // Offset of the timezone from UTC at the given instant, in milliseconds
+  public static getOffset(epoch: number, timezone: string): number {
+    const parts = TimezoneUtils.getDateParts(epoch, timezone);
+    const asUtc = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second
+    );
+    return asUtc - Math.floor(epoch / 1000) * 1000;
+  }
+
+  // Epoch timestamp of local midnight for a calendar date in a timezone.
+  // Out-of-range months/days roll over like Date.UTC (e.g. day 0, month 13).
+  public static zonedMidnight(
+    year: number,
+    month: number,
+    day: number,
+    timezone: string
+  ): number {
+    const utcGuess = Date.UTC(year, month - 1, day);
+    const offset = TimezoneUtils.getOffset(utcGuess, timezone);
+    let result = utcGuess - offset;
+
+    // Re-check in case a DST transition happens between the guess and result
+    const adjustedOffset = TimezoneUtils.getOffset(result, timezone);
+    if (adjustedOffset !== offset) {
+      result = utcGuess - adjustedOffset;
+    }
+
+    return result;
+  }
+
+  // Start of the local day containing the timestamp
+  public static startOfDay(epoch: number, timezone: string): number {
+    const { year, month, day } = TimezoneUtils.getDateParts(epoch, timezone);
+    return TimezoneUtils.zonedMidnight(year, month, day, timezone);
+  }
+
+  // Last millisecond of the local day containing the timestamp
+  public static endOfDay(epoch: number, timezone: string): number {
+    const { year, month, day } = TimezoneUtils.getDateParts(epoch, timezone);
+    return TimezoneUtils.zonedMidnight(year, month, day + 1, timezone) - 1;
+  }
+
+  // Start of the local day a number of days before/after the timestamp
+  public static addDays(epoch: number, days: number, timezone: string): number {
+    const { year, month, day } = TimezoneUtils.getDateParts(epoch, timezone);
+    return TimezoneUtils.zonedMidnight(year, month, day + days, timezone);
+  }
+
+  // Start of the local day a number of months before/after the timestamp
+  public static addMonths(
+    epoch: number,
+    months: number,
+    timezone: string
+  ): number {
+    const { year, month, day } = TimezoneUtils.getDateParts(epoch, timezone);
+    return TimezoneUtils.zonedMidnight(year, month + months, day, timezone);
+  }
+
+  // Local calendar date of the timestamp as YYYY-MM-DD
+  public static toDateKey(epoch: number, timezone: string): string {
+    const { year, month, day } = TimezoneUtils.getDateParts(epoch, timezone);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+}
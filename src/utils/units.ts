@@ -0,0 +1,92 @@
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export const UNIT_DIMENSIONS: UnitDimension[] = ['mass', 'volume', 'count'];
+
+export interface UnitConversion {
+  dimension: UnitDimension;
+  factor: number; // Size of one unit in the dimension's base unit (g, ml, piece)
+}
+
+// Any unit record that can take part in a conversion
+export interface ConvertibleUnit {
+  shortName: string;
+  dimension?: UnitDimension;
+  baseFactor?: number;
+}
+
+// Well-known units keyed by lowercase short name, used when a unit does not
+// carry its own dimension and base factor
+const KNOWN_UNITS: { [shortName: string]: UnitConversion } = {
+  // Mass, base unit grams
+  mg: { dimension: 'mass', factor: 0.001 },
+  g: { dimension: 'mass', factor: 1 },
+  gm: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  oz: { dimension: 'mass', factor: 28.349523125 },
+  lb: { dimension: 'mass', factor: 453.59237 },
+  lbs: { dimension: 'mass', factor: 453.59237 },
+  // Volume, base unit millilitres
+  ml: { dimension: 'volume', factor: 1 },
+  cl: { dimension: 'volume', factor: 10 },
+  dl: { dimension: 'volume', factor: 100 },
+  l: { dimension: 'volume', factor: 1000 },
+  tsp: { dimension: 'volume', factor: 4.92892159375 },
+  tbsp: { dimension: 'volume', factor: 14.78676478125 },
+  'fl oz': { dimension: 'volume', factor: 29.5735295625 },
+  cup: { dimension: 'volume', factor: 240 },
+  // Count, base unit pieces
+  pc: { dimension: 'count', factor: 1 },
+  pcs: { dimension: 'count', factor: 1 },
+  piece: { dimension: 'count', factor: 1 },
+  dozen: { dimension: 'count', factor: 12 },
+};
+
+export class UnitConversionUtils {
+  // Look up a well-known unit by short name (case-insensitive)
+  public static getKnownConversion(shortName: string): UnitConversion | null {
+    if (!shortName || typeof shortName !== 'string') {
+      return null;
+    }
+    return KNOWN_UNITS[shortName.trim().toLowerCase()] || null;
+  }
+
+  // A unit's own dimension and base factor, falling back to the known table
+  public static resolveConversion(
+    unit: ConvertibleUnit
+  ): UnitConversion | null {
+    if (unit.dimension && unit.baseFactor) {
+      return { dimension: unit.dimension, factor: unit.baseFactor };
+    }
+    return UnitConversionUtils.getKnownConversion(unit.shortName);
+  }
+
+  // Convert a value between two units. Volume and mass can only be bridged
+  // with a density (grams per millilitre). Returns null when the units
+  // cannot be converted.
+  public static convert(
+    value: number,
+    from: ConvertibleUnit,
+    to: ConvertibleUnit,
+    density?: number
+  ): number | null {
+    const fromConversion = UnitConversionUtils.resolveConversion(from);
+    const toConversion = UnitConversionUtils.resolveConversion(to);
+    if (!fromConversion || !toConversion) {
+      return null;
+    }
+
+    let baseValue = value * fromConversion.factor;
+    if (fromConversion.dimension !== toConversion.dimension) {
+      const dimensions = `${fromConversion.dimension}->${toConversion.dimension}`;
+      if (density && dimensions === 'volume->mass') {
+        baseValue = baseValue * density;
+      } else if (density && dimensions === 'mass->volume') {
+        baseValue = baseValue / density;
+      } else {
+        return null;
+      }
+    }
+
+    return baseValue / toConversion.factor;
+  }
+}
@@ -0,0 +1,20 @@
+export class UpdateUtils {
+  // Copy the allowed fields of a client update. Keys starting with $ are
+  // rejected, as Mongoose would run them as update operators.
+  public static pickFields(data: any, fields: readonly string[]): any {
+    const update: any = {};
+    if (!data || typeof data !== 'object') {
+      return update;
+    }
+
+    Object.keys(data).forEach(field => {
+      if (field.startsWith('$')) {
+        throw new Error(`Invalid update field: ${field}`);
+      }
+      if (fields.includes(field) && data[field] !== undefined) {
+        update[field] = data[field];
+      }
+    });
+    return update;
+  }
+}